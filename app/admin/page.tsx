@@ -0,0 +1,5 @@
+import AdminConsole from "../components/AdminConsole";
+
+export default function Admin() {
+  return <AdminConsole />;
+}
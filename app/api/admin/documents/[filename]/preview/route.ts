@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import path from "path";
+import { ADMIN_ROLE, authenticate } from "@/app/lib/auth";
+import { CHUNKING_STRATEGIES, ChunkingStrategy } from "@/app/lib/chunking";
+import { isValidDocumentName } from "@/app/lib/documentFiles";
+import { PDFS_DIR, previewChunks } from "@/app/lib/ingestDocuments";
+
+type RouteContext = { params: Promise<{ filename: string }> };
+
+/**
+ * GET /api/admin/documents/:filename/preview?chunking=structured
+ * Splits the file in pdfs/ the way ingestion would — with `chunking`, or
+ * its own strategy — and returns the chunks with their pages. Nothing is
+ * embedded or stored, so strategies can be compared before re-ingesting.
+ * Admins only.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { filename } = await params;
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  if (!isValidDocumentName(filename)) {
+    return NextResponse.json({ error: "Invalid document name" }, { status: 400 });
+  }
+
+  const chunking = req.nextUrl.searchParams.get("chunking") ?? undefined;
+  if (chunking !== undefined && !CHUNKING_STRATEGIES.includes(chunking as ChunkingStrategy)) {
+    return NextResponse.json(
+      { error: `chunking must be one of: ${CHUNKING_STRATEGIES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  if (!fs.existsSync(path.join(PDFS_DIR, filename))) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json(
+      await previewChunks(filename, chunking as ChunkingStrategy | undefined)
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to chunk the document",
+      },
+      { status: 500 }
+    );
+  }
+}
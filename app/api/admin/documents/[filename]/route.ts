@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ADMIN_ROLE, authenticate } from "@/app/lib/auth";
+import { inspectDocument } from "@/app/lib/corpusHealth";
+import { isValidDocumentName } from "@/app/lib/documentFiles";
+
+type RouteContext = { params: Promise<{ filename: string }> };
+
+/**
+ * GET /api/admin/documents/:filename
+ * One document's health (as in GET /api/admin/documents) plus every chunk
+ * stored for it — text, pages, section and access labels — in document
+ * order. Admins only.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { filename } = await params;
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  if (!isValidDocumentName(filename)) {
+    return NextResponse.json({ error: "Invalid document name" }, { status: 400 });
+  }
+
+  try {
+    const inspection = await inspectDocument(filename);
+    if (!inspection) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    return NextResponse.json(inspection);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to inspect the document",
+      },
+      { status: 500 }
+    );
+  }
+}
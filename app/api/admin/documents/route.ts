@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ADMIN_ROLE, authenticate } from "@/app/lib/auth";
+import { inspectCorpus } from "@/app/lib/corpusHealth";
+
+/**
+ * GET /api/admin/documents
+ * Index health for admins: the embedding model and dimension, the store's
+ * vector count, and for every document in pdfs/ or the tracker its tracker
+ * entry, the vectors actually stored for it and any drift between the two
+ * (`issues`). Admins only.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    return NextResponse.json(await inspectCorpus());
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to inspect the index",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ADMIN_ROLE, authenticate } from "@/app/lib/auth";
+import { feedbackAnalytics } from "@/app/lib/feedback";
+
+// Items per list unless ?limit= says otherwise
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/admin/feedback?limit=10
+ * Feedback analytics for admins: rating totals, the lowest-rated questions
+ * (with their latest comments) and the documents most often linked to
+ * thumbs-down or "wrong source" answers — the policies worth rewriting.
+ * Admins only.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const limitParam = req.nextUrl.searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(feedbackAnalytics(limit));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to read feedback",
+      },
+      { status: 500 }
+    );
+  }
+}
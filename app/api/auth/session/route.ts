@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, createAuthProvider, isAdmin } from "@/app/lib/auth";
+import { getRagConfig } from "@/app/lib/config";
+import { SESSION_COOKIE } from "@/app/lib/localAuth";
+
+/**
+ * GET /api/auth/session
+ * Who the caller is: `{ provider, user, admin }`, with `user: null` when
+ * sign-in is required. With AUTH_PROVIDER=none everyone is an anonymous
+ * admin.
+ */
+export async function GET(req: NextRequest) {
+  const { provider } = getRagConfig().auth;
+  const auth = await authenticate(req);
+  if ("error" in auth && auth.status === 500) {
+    return NextResponse.json({ error: auth.error }, { status: 500 });
+  }
+
+  const user = "user" in auth ? auth.user : null;
+  return NextResponse.json({ provider, user, admin: user ? isAdmin(user) : false });
+}
+
+/**
+ * POST /api/auth/session
+ * Signs in with `{ "username": "…", "password": "…" }`. Returns
+ * `{ token, user, expiresAt }` and sets an HTTP-only session cookie; API
+ * clients can send the token as `Authorization: Bearer <token>` instead.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => undefined);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+  }
+
+  try {
+    const { username, password } = body;
+
+    if (typeof username !== "string" || !username.trim()) {
+      return NextResponse.json(
+        { error: "username must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof password !== "string" || !password) {
+      return NextResponse.json(
+        { error: "password must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    const provider = createAuthProvider();
+    if (!provider?.login) {
+      return NextResponse.json(
+        {
+          error: provider
+            ? `Sign in through ${provider.name} instead`
+            : "Sign-in is disabled (AUTH_PROVIDER=none)",
+        },
+        { status: 400 }
+      );
+    }
+
+    const session = await provider.login(username.trim(), password);
+    if (!session) {
+      console.warn(`[RAG] ✗ Failed sign-in for "${username.trim()}"`);
+      return NextResponse.json(
+        { error: "Invalid username or password" },
+        { status: 401 }
+      );
+    }
+
+    const res = NextResponse.json({ success: true, ...session });
+    res.cookies.set(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: req.nextUrl.protocol === "https:",
+      path: "/",
+      expires: new Date(session.expiresAt),
+    });
+    return res;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to sign in",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/session
+ * Signs out of the UI by clearing the session cookie. Tokens stay valid
+ * until they expire; remove the user (or rotate AUTH_JWT_SECRET) to revoke
+ * them sooner.
+ */
+export async function DELETE() {
+  const res = NextResponse.json({ success: true });
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
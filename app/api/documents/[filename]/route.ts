@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import path from "path";
+import {
+  assertIngestConfigured,
+  getIngestedFiles,
+  ingestDocumentAndWait,
+  PDFS_DIR,
+  removeDocumentAndWait,
+} from "@/app/lib/ingestDocuments";
+import { loaderFor } from "@/app/lib/documentLoaders";
+import {
+  isValidDocumentName,
+  readDocumentUpload,
+  writeDocument,
+} from "@/app/lib/documentFiles";
+import { sidecarPath, writeDocumentMeta } from "@/app/lib/documentMetadata";
+import { ADMIN_ROLE, authenticate, canReadDocument } from "@/app/lib/auth";
+
+type RouteContext = { params: Promise<{ filename: string }> };
+
+/**
+ * GET /api/documents/:filename
+ * Streams a document from the pdfs/ folder so citations can link to it.
+ * For PDFs, append `#page=N` to the URL to open the browser's viewer at a
+ * page. Word files are downloaded; HTML is shown as source, not rendered.
+ * Documents the caller may not read are reported as not found.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { filename } = await params;
+  const auth = await authenticate(req);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  // Reject anything that isn't a plain file name inside pdfs/
+  if (!isValidDocumentName(filename)) {
+    return NextResponse.json({ error: "Invalid document name" }, { status: 400 });
+  }
+
+  const fullPath = path.join(PDFS_DIR, filename);
+  if (!fs.existsSync(fullPath) || !canReadDocument(auth.user, fullPath)) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  const { contentType } = loaderFor(filename)!;
+  // Browsers can show PDFs and text; anything else (Word) is downloaded
+  const viewable = contentType === "application/pdf" || contentType.startsWith("text/");
+  const disposition = viewable ? "inline" : "attachment";
+
+  const buffer = fs.readFileSync(fullPath);
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
+
+/**
+ * PUT /api/documents/:filename
+ * Replaces an existing document with a new upload (multipart/form-data, field
+ * `file`) and re-ingests it. Chunks the new version no longer has are
+ * deleted from the index. Metadata fields (see POST /api/documents), when
+ * sent, replace the existing metadata; otherwise it is kept. If ingestion
+ * fails, the old file and metadata are restored. Admins only.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const { filename } = await params;
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  if (!isValidDocumentName(filename)) {
+    return NextResponse.json({ error: "Invalid document name" }, { status: 400 });
+  }
+  try {
+    assertIngestConfigured();
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+
+  const fullPath = path.join(PDFS_DIR, filename);
+  if (!fs.existsSync(fullPath)) {
+    return NextResponse.json(
+      { error: "Document not found — use POST /api/documents to upload it" },
+      { status: 404 }
+    );
+  }
+
+  const upload = await readDocumentUpload(req);
+  if ("error" in upload) {
+    return NextResponse.json({ error: upload.error }, { status: 400 });
+  }
+  if (loaderFor(upload.name) !== loaderFor(filename)) {
+    return NextResponse.json(
+      { error: `The replacement must be the same file type as ${filename}` },
+      { status: 400 }
+    );
+  }
+
+  const previous = fs.readFileSync(fullPath);
+  const metaPath = sidecarPath(fullPath);
+  const previousMeta = fs.existsSync(metaPath)
+    ? fs.readFileSync(metaPath)
+    : undefined;
+
+  try {
+    if (upload.meta) writeDocumentMeta(fullPath, upload.meta);
+    writeDocument(filename, upload.data);
+    const record = await ingestDocumentAndWait(filename);
+    return NextResponse.json({ success: true, file: record });
+  } catch (error) {
+    console.error("Replace error:", error);
+
+    // Put the old version back and re-index it so nothing is half-replaced
+    writeDocument(filename, previous);
+    if (upload.meta) {
+      if (previousMeta) fs.writeFileSync(metaPath, previousMeta);
+      else fs.rmSync(metaPath, { force: true });
+    }
+    await ingestDocumentAndWait(filename).catch((err) =>
+      console.error(`Failed to restore ${filename}:`, err)
+    );
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to ingest the replacement document",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/:filename
+ * Deletes a document (and its metadata sidecar) from pdfs/, removes all of its
+ * vectors from the index and drops it from the .ingested.json tracker.
+ * Admins only.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { filename } = await params;
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  if (!isValidDocumentName(filename)) {
+    return NextResponse.json({ error: "Invalid document name" }, { status: 400 });
+  }
+
+  const fullPath = path.join(PDFS_DIR, filename);
+  try {
+    assertIngestConfigured();
+    const tracked = getIngestedFiles().some((f) => f.filename === filename);
+    if (!tracked && !fs.existsSync(fullPath)) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    fs.rmSync(fullPath, { force: true });
+    fs.rmSync(sidecarPath(fullPath), { force: true });
+    await removeDocumentAndWait(filename);
+    return NextResponse.json({ success: true, filename });
+  } catch (error) {
+    console.error("Delete error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to delete the document",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import path from "path";
+import {
+  assertIngestConfigured,
+  ingestDocumentAndWait,
+  PDFS_DIR,
+  removeDocumentAndWait,
+} from "@/app/lib/ingestDocuments";
+import {
+  isValidDocumentName,
+  readDocumentUpload,
+  writeDocument,
+} from "@/app/lib/documentFiles";
+import { sidecarPath, writeDocumentMeta } from "@/app/lib/documentMetadata";
+import { ADMIN_ROLE, authenticate } from "@/app/lib/auth";
+
+/**
+ * POST /api/documents
+ * Uploads a new document (multipart/form-data, field `file`: .pdf, .docx,
+ * .md, .html or .txt), saves it to pdfs/
+ * and ingests it immediately. Optional `category`, `department`, `version`,
+ * `effectiveDate` (YYYY-MM-DD) and `chunking` fields are saved to the
+ * document's `.meta.json` sidecar and attached to every chunk for query
+ * filters; `access` (comma-separated labels, e.g. `managers,hr-only`)
+ * limits who can retrieve it. Use PUT /api/documents/:filename to replace an
+ * existing document. Admins only.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    assertIngestConfigured();
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+
+  const upload = await readDocumentUpload(req);
+  if ("error" in upload) {
+    return NextResponse.json({ error: upload.error }, { status: 400 });
+  }
+
+  const { name, data, meta } = upload;
+  if (!isValidDocumentName(name)) {
+    return NextResponse.json({ error: "Invalid document name" }, { status: 400 });
+  }
+  if (fs.existsSync(path.join(PDFS_DIR, name))) {
+    return NextResponse.json(
+      { error: `${name} already exists — use PUT /api/documents/${encodeURIComponent(name)} to replace it` },
+      { status: 409 }
+    );
+  }
+
+  const fullPath = path.join(PDFS_DIR, name);
+  try {
+    writeDocumentMeta(fullPath, meta ?? {});
+    writeDocument(name, data);
+    const record = await ingestDocumentAndWait(name);
+    return NextResponse.json({ success: true, file: record }, { status: 201 });
+  } catch (error) {
+    console.error("Upload error:", error);
+
+    // Roll back so the folder and the index stay in sync
+    fs.rmSync(fullPath, { force: true });
+    fs.rmSync(sidecarPath(fullPath), { force: true });
+    await removeDocumentAndWait(name).catch(() => undefined);
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to ingest the uploaded document",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/app/lib/auth";
+import { MAX_COMMENT_LENGTH, saveFeedback } from "@/app/lib/feedback";
+
+/**
+ * POST /api/feedback
+ * Rates an answer from POST /api/query. Body:
+ *   { "answerId": "…", "rating": "up" | "down", "comment"?: "…", "wrongSource"?: true }
+ * `wrongSource` flags an answer that relied on the wrong document. The
+ * rating is stored with the answer's question, retrieved chunk IDs, text
+ * and model settings; rating the same answer again replaces it. Only the
+ * user who asked can rate an answer, for 24 hours (404 otherwise, or
+ * after a restart).
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authenticate(req);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await req.json().catch(() => undefined);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+  }
+
+  try {
+    const { answerId, rating, comment, wrongSource } = body;
+
+    if (typeof answerId !== "string" || !answerId) {
+      return NextResponse.json(
+        { error: "answerId must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (rating !== "up" && rating !== "down") {
+      return NextResponse.json(
+        { error: 'rating must be "up" or "down"' },
+        { status: 400 }
+      );
+    }
+
+    if (comment !== undefined && typeof comment !== "string") {
+      return NextResponse.json(
+        { error: "comment must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof comment === "string" && comment.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `comment is too long (max ${MAX_COMMENT_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    if (wrongSource !== undefined && typeof wrongSource !== "boolean") {
+      return NextResponse.json(
+        { error: "wrongSource must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const entry = saveFeedback(answerId, auth.user.username, {
+      rating,
+      comment: comment?.trim(),
+      wrongSource: wrongSource ?? false,
+    });
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Answer not found — it may have expired. Ask the question again to rate it." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      feedback: {
+        answerId: entry.answerId,
+        rating: entry.rating,
+        comment: entry.comment,
+        wrongSource: entry.wrongSource,
+        ratedAt: entry.ratedAt,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to save feedback",
+      },
+      { status: 500 }
+    );
+  }
+}
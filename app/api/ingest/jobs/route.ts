@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import path from "path";
+import { ADMIN_ROLE, authenticate } from "@/app/lib/auth";
+import { isValidDocumentName } from "@/app/lib/documentFiles";
+import { assertIngestConfigured, PDFS_DIR, queueIngest } from "@/app/lib/ingestDocuments";
+import { listJobs, retryFailedJobs, retryJob } from "@/app/lib/ingestQueue";
+
+/**
+ * GET /api/ingest/jobs
+ * Returns every ingestion job the server knows about (queued, running and
+ * recently finished), oldest first, with per-file embedding progress.
+ * Admins only, like every route below.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const jobs = listJobs();
+  const count = (state: string) => jobs.filter((j) => j.state === state).length;
+
+  return NextResponse.json({
+    queued: count("queued"),
+    running: count("running"),
+    succeeded: count("succeeded"),
+    failed: count("failed"),
+    jobs,
+  });
+}
+
+/**
+ * POST /api/ingest/jobs
+ * Retries failed jobs. Body: `{ "retry": "<jobId>" }` for one job, or
+ * `{ "retry": "failed" }` for every file whose latest job failed. Or
+ * re-ingests a document in pdfs/ even if it looks current:
+ * `{ "ingest": "<filename>" }` (unchanged chunks keep their vectors).
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authenticate(req, ADMIN_ROLE);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { retry, ingest } = await req.json();
+
+    if (ingest !== undefined) {
+      if (typeof ingest !== "string" || !isValidDocumentName(ingest)) {
+        return NextResponse.json(
+          { error: "ingest must be a document file name" },
+          { status: 400 }
+        );
+      }
+      if (!fs.existsSync(path.join(PDFS_DIR, ingest))) {
+        return NextResponse.json({ error: "Document not found" }, { status: 404 });
+      }
+      assertIngestConfigured();
+      return NextResponse.json({ success: true, jobs: [queueIngest(ingest)] });
+    }
+
+    if (typeof retry !== "string" || !retry) {
+      return NextResponse.json(
+        {
+          error:
+            'Body must be { "retry": "<jobId>" }, { "retry": "failed" } or { "ingest": "<filename>" }',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (retry === "failed") {
+      return NextResponse.json({ success: true, jobs: retryFailedJobs() });
+    }
+
+    const job = retryJob(retry);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found or not in a failed state" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, jobs: [job] });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to queue jobs",
+      },
+      { status: 500 }
+    );
+  }
+}
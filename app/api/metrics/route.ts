@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getIngestedFiles } from "@/app/lib/ingestDocuments";
+import { listJobs } from "@/app/lib/ingestQueue";
+import { indexSize, ingestJobsActive, renderMetrics } from "@/app/lib/metrics";
+
+/**
+ * GET /api/metrics
+ * Prometheus metrics in the text exposition format: query counts by
+ * outcome (error rate = outcome="error" over the total), end-to-end and
+ * per-stage latency histograms, chat token usage, query cache hits,
+ * ingestion job counts and durations, and the current queue and index size.
+ * Counters start from zero when the server restarts.
+ */
+export async function GET() {
+  try {
+    // Gauges describe the present, so they are read at scrape time
+    const jobs = listJobs();
+    for (const state of ["queued", "running"] as const) {
+      ingestJobsActive.set({ state }, jobs.filter((j) => j.state === state).length);
+    }
+    const ingested = getIngestedFiles();
+    indexSize.set({ kind: "documents" }, ingested.length);
+    indexSize.set(
+      { kind: "chunks" },
+      ingested.reduce((sum, f) => sum + f.chunkCount, 0)
+    );
+
+    return new NextResponse(renderMetrics(), {
+      headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to collect metrics",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, isAdmin } from "@/app/lib/auth";
+import { getRagConfig } from "@/app/lib/config";
+import { listProfiles } from "@/app/lib/promptProfiles";
+
+/**
+ * GET /api/prompts
+ * The prompt profiles POST /api/query accepts as `profile`: name,
+ * description, active version and each version's note and generation
+ * settings, plus which profile is the default. Admins also get the
+ * templates themselves. Requires a signed-in user.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const showTemplates = isAdmin(auth.user);
+    return NextResponse.json({
+      defaultProfile: getRagConfig().prompts.defaultProfile,
+      profiles: listProfiles().map((p) => ({
+        ...p,
+        versions: p.versions.map(({ template, ...version }) =>
+          showTemplates ? { ...version, template } : version
+        ),
+      })),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to load prompt profiles",
+      },
+      { status: 500 }
+    );
+  }
+}
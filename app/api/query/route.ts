@@ -1,28 +1,209 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GeminiEmbeddings } from "@/app/lib/geminiEmbeddings";
-import { Pinecone } from "@pinecone-database/pinecone";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { authenticate, restrictToUser } from "@/app/lib/auth";
+import { ChatOptions, ChatProvider, ChatUsage, createChatProvider } from "@/app/lib/chat";
+import { assertProvidersConfigured, getRagConfig, GroundingAction } from "@/app/lib/config";
+import { createEmbeddingProvider } from "@/app/lib/embeddings";
+import {
+  buildCitations,
+  buildNumberedContext,
+  Citation,
+  CitationInput,
+} from "@/app/lib/citations";
+import { buildMetadataFilter, parseQueryFilters } from "@/app/lib/documentMetadata";
+import {
+  appendExchange,
+  condenseQuestion,
+  Conversation,
+  formatHistory,
+  getOrCreateConversation,
+} from "@/app/lib/conversations";
+import { recordAnswer } from "@/app/lib/feedback";
+import {
+  createGroundingJudge,
+  GroundingJudge,
+  GroundingReport,
+  verifyAnswer,
+} from "@/app/lib/grounding";
+import {
+  detectLanguage,
+  isCorpusLanguage,
+  LANGUAGE_CODE_PATTERN,
+  languageName,
+  QuestionLanguage,
+  translate,
+} from "@/app/lib/language";
+import { renderPrompt, resolvePrompt } from "@/app/lib/promptProfiles";
+import { CacheReport, QueryCache } from "@/app/lib/queryCache";
+import { PromptRef, QueryRecorder, QueryTiming } from "@/app/lib/queryLog";
+import { createReranker } from "@/app/lib/rerank";
+import { retrieveChunks } from "@/app/lib/retrieval";
+import {
+  answerText,
+  buildStructuredPrompt,
+  checkStructuredAnswer,
+  generateStructured,
+  parseAnswerFormat,
+} from "@/app/lib/structuredAnswers";
+import { runInSpan, withSpan } from "@/app/lib/telemetry";
+import { assertVectorStoreConfigured } from "@/app/lib/vectorStore";
 
-// Number of similar chunks to retrieve
+// Number of chunks sent to the LLM after fusion, reranking and the score threshold
 const TOP_K = 4;
 
-// Metadata stored alongside each Pinecone vector at ingest time
-interface ChunkMetadata {
-  text?: string;
-  source?: string;
-  chunkIndex?: number;
-  uploadedAt?: string;
+// Reported with every answer so weak retrieval is easy to diagnose
+interface RerankSummary {
+  reranker: string;
+  candidateChunks: number;
+  minScore?: number;
+}
+
+const NO_CONTENT_ANSWER =
+  "No relevant content was found in the uploaded documents. Please upload a PDF first.";
+
+// Returned without calling the LLM when no chunk clears RERANK_MIN_SCORE
+const NOT_COVERED_ANSWER =
+  "That doesn't appear to be covered by our policies. Try rephrasing, or check with HR directly.";
+
+// Shown when GROUNDING_ACTION=strip removed every claim of the answer
+const UNVERIFIED_ANSWER =
+  "I couldn't verify an answer to that against our policies. Try rephrasing, or check with HR directly.";
+
+// An answer after its claims were checked against the chunks
+interface VerifiedAnswer {
+  answer: string;
+  grounding?: GroundingReport;
+  verifyMs: number;
+  /** Every claim was stripped, so UNVERIFIED_ANSWER replaced the answer. */
+  unverified: boolean;
+}
+
+// ── Pipeline helpers ───────────────────────────────────────────────────────
+
+// Deduplicated-by-filename source list (the original, pre-citation contract)
+function uniqueSources(chunks: CitationInput[]) {
+  const sources = chunks.map((c) => ({
+    source: c.source,
+    chunkIndex: c.chunkIndex,
+  }));
+  return Array.from(new Map(sources.map((s) => [s.source, s])).values());
+}
+
+// Formats one Server-Sent Events frame
+function sseFrame(event: string, data: unknown): Uint8Array {
+  return new TextEncoder().encode(
+    `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+  );
 }
 
 /**
  * POST /api/query
- * Accepts a user question, retrieves relevant chunks from Pinecone,
- * and generates a grounded answer with Gemini.
+ * Accepts a user question, retrieves relevant chunks with hybrid search
+ * (vector similarity fused with BM25 keyword matches), and generates a
+ * grounded answer with the configured chat model. Each citation lists the
+ * `retrievers` ("vector", "keyword") that found its chunk.
+ *
+ * Retrieval over-fetches RERANK_CANDIDATES chunks, which the RERANKER
+ * re-scores; chunks below RERANK_MIN_SCORE are dropped. If none are left,
+ * a "not covered by our policies" answer is returned without calling the LLM.
+ *
+ * Pass `filters` to search only part of the index, e.g.
+ *   { "sources": ["Internship Policy.pdf"], "categories": ["HR"],
+ *     "departments": ["Engineering"], "effectiveFrom": "2024-01-01", "effectiveTo": "2024-12-31" }
+ * Every given condition must match; see app/lib/documentMetadata.ts.
+ *
+ * Requires a signed-in user (see app/lib/auth.ts). Retrieval only ever
+ * sees chunks whose document access labels include one of the user's
+ * roles, so restricted text can't reach the prompt.
+ *
+ * The answer's wording comes from a prompt profile (see
+ * app/lib/promptProfiles.ts): pass `profile` (e.g. "legal") and optionally
+ * `profileVersion` to pin a version; otherwise PROMPT_PROFILE at its
+ * active version is used. Every response reports the template it used as
+ * `prompt: { profile, version }`, which is also logged and kept with the
+ * answer's feedback record.
+ *
+ * Generated answers are checked claim by claim against the chunks in the
+ * prompt (GROUNDING_CHECK, see app/lib/grounding.ts). The response's
+ * `grounding` gives each claim's support and an overall score; unsupported
+ * claims are marked "[unverified]" or, with GROUNDING_ACTION=strip,
+ * removed. While a check is on, streamed answers are held back until
+ * checked and sent as one token, so no unchecked claim reaches the user.
+ *
+ * Pass `format` for a JSON answer instead of prose (see
+ * app/lib/structuredAnswers.ts): a built-in shape ("direct", "steps",
+ * "conditions") or `{ "schema": {…}, "name"?: "…" }`. The model's output
+ * is constrained to the schema and validated; a reply that doesn't match
+ * is retried once, then answered with 502 and
+ * `{ error, code: "invalid_structured_answer", issues }`. On success
+ * `answer` is the object (null when no chunk was found) and `answerText`
+ * its prose; claims are checked but never flagged or stripped, so the
+ * object always matches. Structured answers are not streamed.
+ *
+ * Questions may be asked in any language (see app/lib/language.ts). The
+ * question's language is detected (LANGUAGE_DETECTION) unless the body
+ * names it as `language` (e.g. "hi"). A question that isn't in the corpus
+ * language (CORPUS_LANGUAGE) is translated before it is embedded and
+ * searched, and the answer is written in the question's language while its
+ * citations still point at the original passages. A judge that can't
+ * compare across languages checks a translation of the answer back into
+ * the corpus language (`grounding.translatedFrom`). Every response reports
+ * `language: { code, name, detectedBy }`, plus `searchQuery` when the
+ * question was translated.
+ *
+ * Pass a `conversationId` from an earlier response to ask a follow-up;
+ * the question is rewritten into a standalone search query using the
+ * prior turns before it is embedded. Omit it to start a new conversation.
+ *
+ * Question embeddings and answers are cached (see app/lib/queryCache.ts,
+ * QUERY_CACHE=false to disable, or send `"cache": false` to bypass it for
+ * one request, as the evaluation harness does). An answer is reused when the same
+ * normalized standalone question retrieves the same chunks; `cache`
+ * reports `{ embedding: "hit" | "miss", answer: "hit" | "miss" | "skip" }`.
+ *
+ * Pass `"stream": true` in the body (or send `Accept: text/event-stream`)
+ * to receive the answer as Server-Sent Events instead of one JSON blob:
+ *   event: sources  → { conversationId, standaloneQuestion, sources, citations, retrievedChunks, reranker, cache, prompt, language, … }
+ *   event: token    → { text }                      (repeated; one event for a cached answer)
+ *   event: done     → { answerId, answer, citations, grounding, usage, timing, cache, prompt, language }
+ *                     (`answer` is the checked text and replaces the streamed tokens)
+ *
+ * Every answer gets an `answerId` that POST /api/feedback uses to rate it.
+ *   event: error    → { error }
+ *
+ * Each request is traced (a `traceparent` header joins the caller's trace),
+ * counted in GET /api/metrics and logged as one JSON line; see
+ * app/lib/queryLog.ts.
  */
 export async function POST(req: NextRequest) {
+  const recorder = new QueryRecorder(req.headers.get("traceparent"));
+  const response = await runInSpan(recorder.span, () => answerQuery(req, recorder));
+  // Rejected before the pipeline ran (answers and errors are reported already)
+  if (!response.ok) recorder.finish(response.status < 500 ? "invalid" : "error");
+  return response;
+}
+
+async function answerQuery(req: NextRequest, recorder: QueryRecorder): Promise<Response> {
   try {
-    const body = await req.json();
-    const { question } = body;
+    const startedAt = Date.now();
+    const auth = await authenticate(req);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+    const { question, conversationId } = body;
+    const stream =
+      body.stream === true ||
+      (req.headers.get("accept") ?? "").includes("text/event-stream");
+    recorder.stream = stream;
 
     if (!question || typeof question !== "string" || !question.trim()) {
       return NextResponse.json(
@@ -38,108 +219,464 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Validate env vars
-    if (!process.env.GOOGLE_API_KEY) {
+    if (conversationId !== undefined && typeof conversationId !== "string") {
       return NextResponse.json(
-        { error: "GOOGLE_API_KEY is not configured" },
-        { status: 500 }
+        { error: "conversationId must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (body.cache !== undefined && typeof body.cache !== "boolean") {
+      return NextResponse.json(
+        { error: "cache must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.language !== undefined &&
+      (typeof body.language !== "string" || !LANGUAGE_CODE_PATTERN.test(body.language))
+    ) {
+      return NextResponse.json(
+        { error: 'language must be a language tag such as "hi" or "ta"' },
+        { status: 400 }
       );
     }
-    if (!process.env.PINECONE_API_KEY || !process.env.PINECONE_INDEX) {
+
+    const parsedFilters = parseQueryFilters(body.filters);
+    if ("error" in parsedFilters) {
+      return NextResponse.json({ error: parsedFilters.error }, { status: 400 });
+    }
+
+    if (body.profile !== undefined && (typeof body.profile !== "string" || !body.profile)) {
       return NextResponse.json(
-        { error: "Pinecone credentials are not configured" },
+        { error: "profile must be a prompt profile name" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.profileVersion !== undefined &&
+      (!Number.isInteger(body.profileVersion) || body.profileVersion < 1)
+    ) {
+      return NextResponse.json(
+        { error: "profileVersion must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    // An unknown default (PROMPT_PROFILE) is a server problem, not the caller's
+    const resolved = resolvePrompt(body.profile, body.profileVersion);
+    if ("error" in resolved) {
+      return NextResponse.json(
+        { error: resolved.error },
+        { status: body.profile === undefined && body.profileVersion === undefined ? 500 : 400 }
+      );
+    }
+    const { prompt: promptTemplate } = resolved;
+    const promptRef: PromptRef = {
+      profile: promptTemplate.profile,
+      version: promptTemplate.version,
+    };
+    const generation: ChatOptions = {
+      temperature: promptTemplate.temperature,
+      maxTokens: promptTemplate.maxTokens,
+    };
+
+    const parsedFormat = body.format === undefined ? undefined : parseAnswerFormat(body.format);
+    if (parsedFormat && "error" in parsedFormat) {
+      return NextResponse.json({ error: parsedFormat.error }, { status: 400 });
+    }
+    const format = parsedFormat?.format;
+
+    if (format && stream) {
+      return NextResponse.json(
+        { error: "format can't be combined with streaming; structured answers are returned whole" },
+        { status: 400 }
+      );
+    }
+
+    // Validate env vars
+    try {
+      assertProvidersConfigured();
+      assertVectorStoreConfigured();
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
         { status: 500 }
       );
     }
 
     const trimmedQuestion = question.trim();
+    const conversation = getOrCreateConversation(conversationId, auth.user.username);
+    const llm = createChatProvider();
+    recorder.question = trimmedQuestion;
+    recorder.conversationId = conversation.id;
+    recorder.prompt = promptRef;
+    recorder.format = format?.name;
+
+    // ── 1. Rewrite follow-ups, translate for search, then embed ──────────
+    const standaloneQuestion = await withSpan("rag.rewrite", {}, () =>
+      condenseQuestion(llm, conversation.turns, trimmedQuestion)
+    );
+    const rewrittenAt = Date.now();
+
+    const { rerank, cache: cacheConfig, language: languageConfig } = getRagConfig();
+    const language: QuestionLanguage =
+      body.language !== undefined
+        ? { code: body.language, name: languageName(body.language), detectedBy: "request" }
+        : await detectLanguage(llm, trimmedQuestion);
+    recorder.language = language.code;
 
-    // ── 1. Embed the question ────────────────────────────────────────────
-    const embedder = new GeminiEmbeddings({
-      apiKey: process.env.GOOGLE_API_KEY,
-      modelName: "gemini-embedding-001",
-      outputDimensionality: 1024,
+    // The corpus is searched in its own language; everything downstream
+    // (keywords, reranking, snippets) works from `searchQuery`
+    const crossLingual = !isCorpusLanguage(language.code);
+    const searchQuery = crossLingual
+      ? await withSpan(
+          "rag.translate",
+          { "rag.language": language.code },
+          () => translate(llm, standaloneQuestion, language.code, languageConfig.corpus)
+        )
+      : standaloneQuestion;
+    const translatedAt = Date.now();
+
+    // Fixed replies are written in the corpus language
+    const localize = async (text: string) =>
+      crossLingual ? translate(llm, text, languageConfig.corpus, language.code) : text;
+
+    const embedder = createEmbeddingProvider();
+    const cache =
+      cacheConfig.enabled && body.cache !== false ? QueryCache.open() : undefined;
+    const cacheReport: CacheReport = { embedding: "miss", answer: "skip" };
+    recorder.cache = cacheReport;
+
+    let questionVector = cache?.getEmbedding(
+      embedder.modelName,
+      embedder.dimension,
+      searchQuery
+    );
+    if (questionVector) {
+      cacheReport.embedding = "hit";
+    } else {
+      questionVector = await withSpan(
+        "rag.embed",
+        { "rag.embedding_model": embedder.modelName },
+        () => embedder.embedQuery(searchQuery)
+      );
+      cache?.setEmbedding(
+        embedder.modelName,
+        embedder.dimension,
+        searchQuery,
+        questionVector
+      );
+    }
+    const embeddedAt = Date.now();
+
+    // ── 2. Retrieve candidates (vector + keyword, fused) ──────────────────
+    const candidates = await withSpan("rag.retrieve", {}, async (span) => {
+      const found = await retrieveChunks({
+        question: searchQuery,
+        vector: questionVector,
+        topK: Math.max(TOP_K, rerank.candidates),
+        filter: restrictToUser(buildMetadataFilter(parsedFilters.filters), auth.user),
+      });
+      span.attributes["rag.candidates"] = found.length;
+      return found;
+    });
+    const retrievedAt = Date.now();
+    recorder.candidateChunks = candidates.length;
+
+    // ── 3. Rerank, drop weak chunks, keep the best TOP_K ──────────────────
+    const reranker = createReranker(llm);
+    const ranked = reranker
+      ? (
+          await withSpan("rag.rerank", { "rag.reranker": reranker.name }, () =>
+            reranker.rerank(searchQuery, candidates)
+          )
+        ).filter((c) => (c.rerankScore ?? 0) >= rerank.minScore)
+      : candidates;
+    const matches = ranked.slice(0, TOP_K);
+    const rerankedAt = Date.now();
+
+    const timing = (verifyMs = 0): QueryTiming => ({
+      rewriteMs: rewrittenAt - startedAt,
+      translateMs: translatedAt - rewrittenAt,
+      embedMs: embeddedAt - translatedAt,
+      retrieveMs: retrievedAt - embeddedAt,
+      rerankMs: rerankedAt - retrievedAt,
+      generateMs: Math.max(0, Date.now() - rerankedAt - verifyMs),
+      verifyMs,
+      totalMs: Date.now() - startedAt,
     });
 
-    const questionVector = await embedder.embedQuery(trimmedQuestion);
+    // ── 4. Build numbered context from the kept chunks ────────────────────
+    const chunks: CitationInput[] = matches
+      .map(({ id, score, rerankScore, retrievers, metadata }) => ({
+        id,
+        score: rerankScore ?? score,
+        retrievers,
+        text: metadata.text ?? "",
+        source: metadata.source,
+        chunkIndex: metadata.chunkIndex,
+        pageStart: metadata.pageStart,
+        pageEnd: metadata.pageEnd,
+        sectionPath: metadata.sectionPath,
+      }))
+      .filter((c) => c.text);
 
-    // ── 2. Retrieve top-K similar chunks from Pinecone ───────────────────
-    const pinecone = new Pinecone({ apiKey: process.env.PINECONE_API_KEY });
-    const index = pinecone.Index(process.env.PINECONE_INDEX);
+    recorder.retrieved = chunks.map(({ id, score, source }) => ({ id, score, source }));
 
-    const queryResponse = await index.query({
-      vector: questionVector,
-      topK: TOP_K,
-      includeMetadata: true,
+    const context = buildNumberedContext(chunks);
+    const fallbackAnswer =
+      chunks.length > 0
+        ? ""
+        : await localize(candidates.length === 0 ? NO_CONTENT_ANSWER : NOT_COVERED_ANSWER);
+    const reranking: RerankSummary = {
+      reranker: reranker?.name ?? "none",
+      candidateChunks: candidates.length,
+      minScore: reranker ? rerank.minScore : undefined,
+    };
+
+    // Same question over the same chunks with the same prompt (format and
+    // answer language) → reuse the earlier answer
+    const chunkIds = chunks.map((c) => c.id);
+    const promptKey =
+      `${promptRef.profile}@${promptRef.version}` +
+      (format ? `#${format.key}` : "") +
+      (crossLingual ? `~${language.code}` : "");
+    const cachedAnswer =
+      chunks.length > 0
+        ? cache?.getAnswer(llm.modelName, promptKey, searchQuery, chunkIds)
+        : undefined;
+    if (chunks.length > 0) cacheReport.answer = cachedAnswer ? "hit" : "miss";
+    const cacheAnswer = (answer: string) => {
+      if (answer.trim()) {
+        cache?.setAnswer(
+          llm.modelName,
+          promptKey,
+          searchQuery,
+          chunkIds,
+          answer,
+          chunks.flatMap((c) => (c.source ? [c.source] : []))
+        );
+      }
+    };
+
+    // Lets the user rate this answer through POST /api/feedback
+    const rememberAnswer = (answer: string, citations: Citation[]) =>
+      recordAnswer({
+        conversationId: conversation.id,
+        username: auth.user.username,
+        question: trimmedQuestion,
+        standaloneQuestion,
+        answer,
+        chunks: citations.map(({ id, source, page, cited }) => ({ id, source, page, cited })),
+        settings: {
+          embeddingModel: embedder.modelName,
+          dimension: embedder.dimension,
+          chatModel: llm.modelName,
+          reranker: reranking.reranker,
+          rerankMinScore: reranking.minScore,
+          topK: TOP_K,
+          promptProfile: promptRef.profile,
+          promptVersion: promptRef.version,
+          language: language.code,
+        },
+      });
+
+    // ── 5. Generate answer with the chat model ────────────────────────────
+    const rendered = renderPrompt(promptTemplate.template, {
+      context,
+      question: trimmedQuestion,
+      history: formatHistory(conversation.turns),
+      language: crossLingual ? language.name : "",
     });
+    const prompt = format ? buildStructuredPrompt(rendered, format) : rendered;
 
-    const matches = queryResponse.matches ?? [];
+    // ── 6. Check the answer's claims against the chunks ───────────────────
+    // (cached answers are stored unchecked and checked again when reused)
+    const judge = createGroundingJudge(llm);
+    // A judge that compares words checks a translated answer in the corpus language
+    const backTranslate = crossLingual && judge !== undefined && !judge.crossLingual;
+    const checkBackTranslation = async (
+      answer: string,
+      judge: GroundingJudge,
+      action?: GroundingAction | "report"
+    ) => {
+      const translated = await translate(llm, answer, language.code, languageConfig.corpus);
+      const checked = await verifyAnswer(translated, chunks, judge, action);
+      // Untouched answers are shown as written; flagged or stripped ones are
+      // the checked back-translation, put into the user's language again
+      const changed = checked.grounding.action !== "report" && checked.grounding.unsupported > 0;
+      return {
+        answer: !checked.answer || !changed ? checked.answer && answer : await localize(checked.answer),
+        grounding: { ...checked.grounding, translatedFrom: language.code },
+      };
+    };
+    const verify = async (
+      answer: string,
+      action?: GroundingAction | "report"
+    ): Promise<VerifiedAnswer> => {
+      if (!judge) return { answer, verifyMs: 0, unverified: false };
+      const started = Date.now();
+      const checked = await withSpan(
+        "rag.verify",
+        { "rag.grounding.check": judge.name, "rag.grounding.back_translated": backTranslate },
+        () =>
+          backTranslate
+            ? checkBackTranslation(answer, judge, action)
+            : verifyAnswer(answer, chunks, judge, action)
+      );
+      recorder.grounding = checked.grounding;
+      return {
+        answer: checked.answer || (await localize(UNVERIFIED_ANSWER)),
+        grounding: checked.grounding,
+        verifyMs: Date.now() - started,
+        unverified: !checked.answer,
+      };
+    };
 
-    if (matches.length === 0) {
+    if (stream) {
+      return streamAnswer({
+        llm,
+        prompt,
+        promptRef,
+        generation,
+        verify,
+        holdTokens: judge !== undefined,
+        question: trimmedQuestion,
+        standaloneQuestion,
+        searchQuery,
+        crossLingual,
+        language,
+        conversation,
+        chunks,
+        fallbackAnswer,
+        cachedAnswer,
+        cacheAnswer,
+        cacheReport,
+        rememberAnswer,
+        reranking,
+        timing,
+        recorder,
+      });
+    }
+
+    if (chunks.length === 0) {
+      appendExchange(conversation, trimmedQuestion, fallbackAnswer);
+      recorder.timing = timing();
+      recorder.finish(candidates.length === 0 ? "no_content" : "not_covered");
       return NextResponse.json({
         success: true,
-        answer:
-          "No relevant content was found in the uploaded documents. Please upload a PDF first.",
+        conversationId: conversation.id,
+        answerId: rememberAnswer(fallbackAnswer, []),
+        standaloneQuestion,
+        ...(crossLingual ? { searchQuery } : {}),
+        ...(format
+          ? { format: format.name, answer: null, answerText: fallbackAnswer }
+          : { answer: fallbackAnswer }),
         sources: [],
+        citations: [],
         retrievedChunks: 0,
+        ...reranking,
+        cache: cacheReport,
+        prompt: promptRef,
+        language,
       });
     }
 
-    // ── 3. Build context from retrieved chunks ────────────────────────────
-    const context = matches
-      .map((m) => (m.metadata as ChunkMetadata)?.text ?? "")
-      .filter(Boolean)
-      .join("\n\n---\n\n");
-
-    // ── 4. Generate answer with Gemini ────────────────────────────────────
-    const genai = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
-    const llm = genai.getGenerativeModel({
-      model: "gemini-2.5-flash",
-      generationConfig: { temperature: 0.7 },  // higher = warmer, more natural tone
-    });
-
-    const prompt = `You are a friendly, knowledgeable assistant helping someone understand their documents. \
-Think of yourself as a helpful colleague — warm, clear, and approachable.
-
-Guidelines:
-- Answer naturally and conversationally, like you're chatting with a colleague.
-- Keep your answer grounded in the document context below — don't make up facts.
-- You can use everyday language, contractions, and a light touch of personality.
-- If the answer has multiple parts, use short bullet points or numbered steps to keep it readable.
-- If the context genuinely doesn't have the answer, say something like: \
-  "Hmm, I don't see anything about that in the documents — could you rephrase, or is there another doc I should check?"
-- Never sound robotic or list out raw text verbatim — always explain in your own words.
+    if (format) {
+      // Cached JSON is validated again before it is reused
+      let structured =
+        cachedAnswer === undefined ? undefined : checkStructuredAnswer(cachedAnswer, format);
+      if (!structured || !("value" in structured)) {
+        if (structured) cacheReport.answer = "miss";
+        const result = await withSpan(
+          "rag.generate",
+          { "rag.chat_model": llm.modelName, "rag.format": format.name },
+          () => generateStructured(llm, prompt, format, generation)
+        );
+        recorder.usage = result.usage;
+        if ("error" in result) {
+          recorder.timing = timing();
+          recorder.finish("error", new Error(result.error));
+          return NextResponse.json(
+            {
+              error: result.error,
+              code: "invalid_structured_answer",
+              format: format.name,
+              issues: result.issues,
+            },
+            { status: 502 }
+          );
+        }
+        cacheAnswer(result.text);
+        structured = result;
+      }
 
-Context from the documents:
-${context}
+      const text = answerText(structured.value, format.schema);
+      const { grounding, verifyMs } = await verify(text, "report");
+      appendExchange(conversation, trimmedQuestion, text);
+      recorder.timing = timing(verifyMs);
+      recorder.finish("answered");
 
-Question: ${trimmedQuestion}
-
-Answer:`;
-
-    const result = await llm.generateContent(prompt);
-    const answer = result.response.text();
+      const citations = buildCitations(chunks, searchQuery, text);
+      return NextResponse.json({
+        success: true,
+        conversationId: conversation.id,
+        answerId: rememberAnswer(text, citations),
+        standaloneQuestion,
+        ...(crossLingual ? { searchQuery } : {}),
+        format: format.name,
+        answer: structured.value,
+        answerText: text,
+        sources: uniqueSources(chunks),
+        citations,
+        grounding,
+        retrievedChunks: chunks.length,
+        ...reranking,
+        cache: cacheReport,
+        prompt: promptRef,
+        language,
+      });
+    }
 
-    // ── 5. Build deduplicated source list ─────────────────────────────────
-    const sources: ChunkMetadata[] = matches.map((m) => ({
-      source: (m.metadata as ChunkMetadata)?.source,
-      chunkIndex: (m.metadata as ChunkMetadata)?.chunkIndex,
-      uploadedAt: (m.metadata as ChunkMetadata)?.uploadedAt,
-    }));
+    let generated = cachedAnswer;
+    if (generated === undefined) {
+      ({ text: generated, usage: recorder.usage } = await withSpan(
+        "rag.generate",
+        { "rag.chat_model": llm.modelName },
+        () => llm.generate(prompt, generation)
+      ));
+      cacheAnswer(generated);
+    }
+    const { answer, grounding, verifyMs, unverified } = await verify(generated);
+    appendExchange(conversation, trimmedQuestion, answer);
+    recorder.timing = timing(verifyMs);
+    recorder.finish(unverified ? "unverified" : "answered");
 
-    // Deduplicate by source filename
-    const uniqueSources = Array.from(
-      new Map(sources.map((s) => [s.source, s])).values()
-    );
+    // ── 7. Build citations and deduplicated source list ───────────────────
+    const citations = buildCitations(chunks, searchQuery, answer);
 
     return NextResponse.json({
       success: true,
+      conversationId: conversation.id,
+      answerId: rememberAnswer(answer, citations),
+      standaloneQuestion,
+      ...(crossLingual ? { searchQuery } : {}),
       answer,
-      sources: uniqueSources,
-      retrievedChunks: matches.length,
+      sources: uniqueSources(chunks),
+      citations,
+      grounding,
+      retrievedChunks: chunks.length,
+      ...reranking,
+      cache: cacheReport,
+      prompt: promptRef,
+      language,
     });
   } catch (error) {
     console.error("Query error:", error);
+    recorder.finish("error", error);
     return NextResponse.json(
       {
         error:
@@ -151,3 +688,155 @@ Answer:`;
     );
   }
 }
+
+// ── Streaming ──────────────────────────────────────────────────────────────
+
+/**
+ * Streams the answer as Server-Sent Events: sources first, then answer
+ * tokens as the model produces them, then a final `done` event.
+ * With no chunks, `fallbackAnswer` is sent instead of calling the LLM;
+ * a `cachedAnswer`, or any answer when `holdTokens` is set, is sent as a
+ * single token once it has been verified.
+ */
+function streamAnswer({
+  llm,
+  prompt,
+  promptRef,
+  generation,
+  verify,
+  holdTokens,
+  question,
+  standaloneQuestion,
+  searchQuery,
+  crossLingual,
+  language,
+  conversation,
+  chunks,
+  fallbackAnswer,
+  cachedAnswer,
+  cacheAnswer,
+  cacheReport,
+  rememberAnswer,
+  reranking,
+  timing,
+  recorder,
+}: {
+  llm: ChatProvider;
+  prompt: string;
+  promptRef: PromptRef;
+  generation: ChatOptions;
+  verify: (answer: string) => Promise<VerifiedAnswer>;
+  holdTokens: boolean;
+  question: string;
+  standaloneQuestion: string;
+  /** What the chunks were retrieved for; citations are matched against it. */
+  searchQuery: string;
+  /** The question was translated for search (and `searchQuery` is reported). */
+  crossLingual: boolean;
+  language: QuestionLanguage;
+  conversation: Conversation;
+  chunks: CitationInput[];
+  fallbackAnswer: string;
+  cachedAnswer?: string;
+  cacheAnswer: (answer: string) => void;
+  cacheReport: CacheReport;
+  rememberAnswer: (answer: string, citations: Citation[]) => string;
+  reranking: RerankSummary;
+  timing: (verifyMs?: number) => QueryTiming;
+  recorder: QueryRecorder;
+}): Response {
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        controller.enqueue(
+          sseFrame("sources", {
+            conversationId: conversation.id,
+            standaloneQuestion,
+            ...(crossLingual ? { searchQuery } : {}),
+            sources: uniqueSources(chunks),
+            citations: buildCitations(chunks, searchQuery, ""),
+            retrievedChunks: chunks.length,
+            ...reranking,
+            cache: cacheReport,
+            prompt: promptRef,
+            language,
+          })
+        );
+
+        let verified: VerifiedAnswer = { answer: fallbackAnswer, verifyMs: 0, unverified: false };
+        let usage: ChatUsage | undefined;
+        let streamed = false;
+
+        if (cachedAnswer !== undefined) {
+          verified = await verify(cachedAnswer);
+        } else if (chunks.length > 0) {
+          const result = await withSpan("rag.generate", { "rag.chat_model": llm.modelName }, () =>
+            llm.stream(
+              prompt,
+              (text) => {
+                if (!holdTokens) controller.enqueue(sseFrame("token", { text }));
+              },
+              generation
+            )
+          );
+          streamed = !holdTokens;
+          usage = result.usage;
+          cacheAnswer(result.text);
+          verified = await verify(result.text);
+        }
+        if (!streamed) controller.enqueue(sseFrame("token", { text: verified.answer }));
+
+        const { answer, grounding } = verified;
+        appendExchange(conversation, question, answer);
+        const citations = buildCitations(chunks, searchQuery, answer);
+        recorder.timing = timing(verified.verifyMs);
+        recorder.usage = usage;
+
+        controller.enqueue(
+          sseFrame("done", {
+            success: true,
+            answerId: rememberAnswer(answer, citations),
+            answer,
+            citations,
+            grounding,
+            usage,
+            timing: recorder.timing,
+            cache: cacheReport,
+            prompt: promptRef,
+            language,
+          })
+        );
+        recorder.finish(
+          verified.unverified
+            ? "unverified"
+            : chunks.length > 0
+              ? "answered"
+              : reranking.candidateChunks === 0
+                ? "no_content"
+                : "not_covered"
+        );
+      } catch (error) {
+        console.error("Query stream error:", error);
+        recorder.finish("error", error);
+        controller.enqueue(
+          sseFrame("error", {
+            error:
+              error instanceof Error
+                ? error.message
+                : "An unexpected error occurred while streaming the answer",
+          })
+        );
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
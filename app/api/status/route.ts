@@ -1,42 +1,86 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import fs from "fs";
-import { getIngestedFiles, PDFS_DIR } from "@/app/lib/ingestPdfs";
+import path from "path";
+import { getIngestedFiles, PDFS_DIR } from "@/app/lib/ingestDocuments";
+import { latestJobFor, listJobs } from "@/app/lib/ingestQueue";
+import { getRagConfig } from "@/app/lib/config";
+import { isSupportedDocument } from "@/app/lib/documentLoaders";
+import { DocumentMeta, readDocumentMeta } from "@/app/lib/documentMetadata";
+import { authenticate, canAccess, documentAccess, isAdmin } from "@/app/lib/auth";
+import { vectorStoreBackend } from "@/app/lib/vectorStore";
+
+// The sidecar's metadata, or undefined if it can't be read
+function currentMetadata(filename: string): DocumentMeta | undefined {
+  try {
+    return readDocumentMeta(path.join(PDFS_DIR, filename));
+  } catch {
+    return undefined;
+  }
+}
 
 /**
  * GET /api/status
- * Returns the list of PDFs in the pdfs/ folder along with their ingestion state.
+ * Returns the documents (every supported file type) in the pdfs/ folder
+ * along with their ingestion state, their metadata (category, department,
+ * version, effective date) and, when one exists, their latest ingestion
+ * job (progress/error). Non-admins only see documents they may read.
  */
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { user } = auth;
+
   try {
-    // All PDF filenames present on disk
-    const onDisk: string[] = fs.existsSync(PDFS_DIR)
-      ? fs
-          .readdirSync(PDFS_DIR)
-          .filter((f) => f.toLowerCase().endsWith(".pdf"))
-      : [];
+    // All readable document filenames present on disk; an unreadable
+    // sidecar hides the document from everyone but admins
+    const onDisk: string[] = (
+      fs.existsSync(PDFS_DIR) ? fs.readdirSync(PDFS_DIR).filter(isSupportedDocument) : []
+    ).filter((filename) => {
+      if (isAdmin(user)) return true;
+      const meta = currentMetadata(filename);
+      return meta !== undefined && canAccess(user, documentAccess(meta));
+    });
 
     // All files that have been successfully ingested
-    const ingested = getIngestedFiles();
+    const ingested = getIngestedFiles().filter(
+      (f) => isAdmin(user) || onDisk.includes(f.filename)
+    );
     const ingestedNames = new Set(ingested.map((f) => f.filename));
 
     // Merge: mark each disk file as ingested or pending
     const files = onDisk.map((filename) => {
       const record = ingested.find((f) => f.filename === filename);
+      const job = latestJobFor(filename);
+      const metadata = currentMetadata(filename) ?? record?.metadata ?? {};
       return record
-        ? { ...record, status: "ingested" as const }
-        : { filename, status: "pending" as const };
+        ? { ...record, metadata, status: "ingested" as const, job }
+        : { filename, metadata, status: "pending" as const, job };
     });
 
+    const active = listJobs().filter(
+      (j) => j.state === "queued" || j.state === "running"
+    ).length;
+
+    const { embedding, chat } = getRagConfig();
+
     return NextResponse.json({
       totalOnDisk: onDisk.length,
       totalIngested: ingestedNames.size,
+      activeJobs: active,
+      models: {
+        embedding: `${embedding.model} (${embedding.dimension}d)`,
+        chat: chat.model,
+        vectorStore: vectorStoreBackend(),
+      },
       files,
     });
   } catch (error) {
     return NextResponse.json(
       {
         error:
-          error instanceof Error ? error.message : "Failed to read PDF status",
+          error instanceof Error ? error.message : "Failed to read document status",
       },
       { status: 500 }
     );
@@ -0,0 +1,387 @@
+"use client";
+
+import Link from "next/link";
+import { useState, useEffect, FormEvent } from "react";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+interface DriftIssue {
+  kind: string;
+  message: string;
+}
+
+interface IngestedFile {
+  ingestedAt: string;
+  chunkCount: number;
+  embeddedChunks?: number;
+  pageCount: number;
+  embeddingModel?: string;
+  dimension?: number;
+  chunking?: string;
+  access?: string[];
+}
+
+interface DocumentHealth {
+  filename: string;
+  onDisk: boolean;
+  record?: IngestedFile;
+  vectorCount: number;
+  dimensions: number[];
+  keywordCount: number;
+  job?: { state: "queued" | "running" | "succeeded" | "failed"; error?: string };
+  issues: DriftIssue[];
+}
+
+interface CorpusHealth {
+  backend: string;
+  embedding: { model: string; dimension: number };
+  store: { dimension?: number; totalVectors: number };
+  documents: DocumentHealth[];
+  issues: DriftIssue[];
+  error?: string;
+}
+
+interface Chunk {
+  id?: string;
+  chunkIndex: number;
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string;
+  access?: string[];
+}
+
+interface TestAnswer {
+  answer?: string;
+  citations?: { marker: number; page?: number; score: number; snippet: string; cited: boolean }[];
+  error?: string;
+}
+
+type ChunkView = "stored" | "recursive" | "structured";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const formatDateTime = (iso?: string) =>
+  iso ? new Date(iso).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" }) : "—";
+
+const pages = (c: { pageStart?: number; pageEnd?: number }) =>
+  !c.pageStart ? "" : c.pageEnd && c.pageEnd !== c.pageStart ? `pp. ${c.pageStart}–${c.pageEnd}` : `p. ${c.pageStart}`;
+
+const documentPath = (filename: string) => `/api/admin/documents/${encodeURIComponent(filename)}`;
+
+async function getJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`);
+  return data;
+}
+
+function IssueList({ issues }: { issues: DriftIssue[] }) {
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, i) => (
+        <li key={i} className="text-xs text-amber-300">
+          <span className="font-mono text-amber-500/80">{issue.kind}</span> · {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ── Document detail ────────────────────────────────────────────────────────
+
+/** Chunks, re-ingest and a scoped test query for one document. */
+function DocumentDetail({ doc, onChanged }: { doc: DocumentHealth; onChanged: () => void }) {
+  const [view, setView] = useState<ChunkView>("stored");
+  const [chunks, setChunks] = useState<Chunk[] | null>(null);
+  const [chunksError, setChunksError] = useState("");
+  const [reingestState, setReingestState] = useState<"idle" | "queued" | "error">("idle");
+  const [question, setQuestion] = useState("");
+  const [testing, setTesting] = useState(false);
+  const [answer, setAnswer] = useState<TestAnswer | null>(null);
+
+  useEffect(() => {
+    const url =
+      view === "stored"
+        ? documentPath(doc.filename)
+        : `${documentPath(doc.filename)}/preview?chunking=${view}`;
+    getJson<{ chunks: Chunk[] }>(url)
+      .then((data) => {
+        setChunks(data.chunks);
+        setChunksError("");
+      })
+      .catch((err) => {
+        setChunks(null);
+        setChunksError(err.message);
+      });
+  }, [doc, view]);
+
+  const reingest = async () => {
+    try {
+      await getJson("/api/ingest/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ingest: doc.filename }),
+      });
+      setReingestState("queued");
+      onChanged();
+    } catch {
+      setReingestState("error");
+    }
+  };
+
+  const testQuery = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+    setTesting(true);
+    try {
+      const res = await fetch("/api/query", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question, filters: { sources: [doc.filename] }, cache: false }),
+      });
+      setAnswer(await res.json());
+    } catch {
+      setAnswer({ error: "Network error — please try again." });
+    }
+    setTesting(false);
+  };
+
+  const tab = (value: ChunkView, label: string) => (
+    <button
+      type="button"
+      onClick={() => setView(value)}
+      className={`px-3 py-1 rounded-lg text-xs border transition-colors ${
+        view === value
+          ? "border-violet-500/50 bg-violet-500/20 text-violet-300"
+          : "border-slate-600/50 text-slate-400 hover:bg-slate-700/60"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <section className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-5 shadow-xl space-y-5">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h2 className="text-base font-semibold text-white truncate">{doc.filename}</h2>
+          <p className="text-xs text-slate-500">
+            {doc.record
+              ? `Ingested ${formatDateTime(doc.record.ingestedAt)} · ${doc.record.embeddingModel ?? "unknown model"} (${doc.record.dimension ?? "?"}d) · ${doc.record.chunking ?? "recursive"} chunking · ${doc.record.pageCount} page(s)`
+              : "Not ingested"}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={reingest}
+          disabled={!doc.onDisk}
+          className="shrink-0 text-xs px-3 py-1.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700/60 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          {reingestState === "queued" ? "Re-ingest queued" : reingestState === "error" ? "Re-ingest failed" : "Re-ingest"}
+        </button>
+      </div>
+
+      {doc.issues.length > 0 && <IssueList issues={doc.issues} />}
+
+      {/* Test query */}
+      <form onSubmit={testQuery} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={2000}
+            placeholder="Test a question against this document only…"
+            className="flex-1 px-3 py-2 rounded-lg bg-slate-900/60 border border-slate-600/50 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-violet-500/50"
+          />
+          <button
+            type="submit"
+            disabled={!question.trim() || testing}
+            className="px-4 py-2 rounded-lg text-sm bg-violet-600 hover:bg-violet-500 text-white disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
+          >
+            {testing ? "Asking…" : "Ask"}
+          </button>
+        </div>
+        {answer && (
+          <div className="p-3 rounded-lg bg-slate-700/40 border border-slate-600/50 text-xs space-y-2">
+            {answer.error ? (
+              <p className="text-red-400">{answer.error}</p>
+            ) : (
+              <p className="text-slate-200 whitespace-pre-wrap">{answer.answer}</p>
+            )}
+            {answer.citations?.map((c) => (
+              <p key={c.marker} className={c.cited ? "text-slate-400" : "text-slate-600"}>
+                [{c.marker}] {c.page ? `p. ${c.page} · ` : ""}score {c.score.toFixed(2)} · “{c.snippet}”
+              </p>
+            ))}
+          </div>
+        )}
+      </form>
+
+      {/* Chunks */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          {tab("stored", `Stored (${doc.vectorCount})`)}
+          {tab("recursive", "Preview: recursive")}
+          {tab("structured", "Preview: structured")}
+        </div>
+        {chunksError ? (
+          <p className="text-sm text-red-400">{chunksError}</p>
+        ) : !chunks ? (
+          <p className="text-sm text-slate-500">Loading chunks…</p>
+        ) : chunks.length === 0 ? (
+          <p className="text-sm text-slate-500">No chunks stored for this document.</p>
+        ) : (
+          <ol className="space-y-2">
+            {chunks.map((c) => (
+              <li key={c.id ?? c.chunkIndex} className="p-3 rounded-lg bg-slate-700/30 border border-slate-600/30 text-xs">
+                <p className="mb-1 text-slate-500">
+                  #{c.chunkIndex}
+                  {pages(c) && ` · ${pages(c)}`}
+                  {c.sectionPath && ` · § ${c.sectionPath}`}
+                  {c.access && ` · access: ${c.access.join(", ")}`}
+                  {` · ${c.text.length} chars`}
+                </p>
+                <p className="text-slate-300 whitespace-pre-wrap">{c.text}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </section>
+  );
+}
+
+// ── Component ──────────────────────────────────────────────────────────────
+
+export default function AdminConsole() {
+  const [health, setHealth] = useState<CorpusHealth | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  // Load on mount, then poll while documents are being (re-)ingested
+  const [tick, setTick] = useState(0);
+  useEffect(() => {
+    getJson<CorpusHealth>("/api/admin/documents")
+      .then(setHealth)
+      .catch((err) => setHealth({ error: err.message } as CorpusHealth));
+  }, [tick]);
+
+  const busy = health?.documents?.some((d) => d.job?.state === "queued" || d.job?.state === "running");
+  useEffect(() => {
+    if (!busy) return;
+    const timer = setTimeout(() => setTick((t) => t + 1), 2000);
+    return () => clearTimeout(timer);
+  }, [busy, health]);
+
+  const selectedDoc = health?.documents?.find((d) => d.filename === selected);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <header className="flex items-end justify-between gap-4 pt-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-white">Admin console</h1>
+            <p className="text-slate-400">Documents, chunks and index health</p>
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            <button
+              type="button"
+              onClick={() => setTick((t) => t + 1)}
+              className="px-3 py-1.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700/60 transition-colors"
+            >
+              Refresh
+            </button>
+            <Link href="/" className="text-violet-400 hover:text-violet-300">← Q&amp;A</Link>
+          </div>
+        </header>
+
+        {!health ? (
+          <p className="text-slate-500 text-sm">Inspecting the index…</p>
+        ) : health.error ? (
+          <p className="text-red-400 text-sm">
+            {health.error} — <Link href="/" className="underline">sign in as an admin</Link> and come back.
+          </p>
+        ) : (
+          <>
+            {/* ── Index summary ── */}
+            <section className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-5 shadow-xl space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-xs text-slate-500">Vector store</p>
+                  <p className="text-slate-200">{health.backend}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Embedding model</p>
+                  <p className="text-slate-200">{health.embedding.model} ({health.embedding.dimension}d)</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Vectors in store</p>
+                  <p className="text-slate-200">
+                    {health.store.totalVectors}
+                    {health.store.dimension !== undefined && ` × ${health.store.dimension}d`}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Documents with drift</p>
+                  <p className="text-slate-200">
+                    {health.documents.filter((d) => d.issues.length > 0).length} / {health.documents.length}
+                  </p>
+                </div>
+              </div>
+              {health.issues.length > 0 && <IssueList issues={health.issues} />}
+            </section>
+
+            {/* ── Documents ── */}
+            <section className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-5 shadow-xl overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500">
+                    <th className="pb-2 font-medium">Document</th>
+                    <th className="pb-2 font-medium text-right">Tracked</th>
+                    <th className="pb-2 font-medium text-right">Vectors</th>
+                    <th className="pb-2 font-medium text-right">Keyword</th>
+                    <th className="pb-2 font-medium">Ingested</th>
+                    <th className="pb-2 font-medium">Health</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {health.documents.map((d) => (
+                    <tr
+                      key={d.filename}
+                      onClick={() => setSelected(d.filename)}
+                      className={`border-t border-slate-700/50 cursor-pointer hover:bg-slate-700/30 ${
+                        selected === d.filename ? "bg-slate-700/40" : ""
+                      }`}
+                    >
+                      <td className="py-2 pr-3 text-slate-200 max-w-xs truncate">{d.filename}</td>
+                      <td className="py-2 px-3 text-right text-slate-400">{d.record?.chunkCount ?? "—"}</td>
+                      <td className="py-2 px-3 text-right text-slate-400">{d.vectorCount}</td>
+                      <td className="py-2 px-3 text-right text-slate-400">{d.keywordCount}</td>
+                      <td className="py-2 px-3 text-slate-500 whitespace-nowrap">{formatDateTime(d.record?.ingestedAt)}</td>
+                      <td className="py-2 pl-3 whitespace-nowrap">
+                        {d.job?.state === "queued" || d.job?.state === "running" ? (
+                          <span className="text-xs text-violet-300">Ingesting…</span>
+                        ) : d.issues.length > 0 ? (
+                          <span className="text-xs text-amber-400" title={d.issues.map((i) => i.message).join("\n")}>
+                            {d.issues.length} issue{d.issues.length !== 1 ? "s" : ""}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-emerald-400">In sync</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            {selectedDoc && (
+              <DocumentDetail key={selectedDoc.filename} doc={selectedDoc} onChanged={() => setTick((t) => t + 1)} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,56 @@
 "use client";
 
+import Link from "next/link";
 import { useState, useEffect, FormEvent } from "react";
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
-interface PDFFile {
+interface IngestJob {
+  id: string;
+  kind: "ingest" | "remove";
+  state: "queued" | "running" | "succeeded" | "failed";
+  progress: { embedded: number; total: number };
+  error?: string;
+}
+
+interface DocumentMeta {
+  category?: string;
+  department?: string;
+  version?: string;
+  effectiveDate?: string;
+  access?: string[];
+}
+
+interface DocumentFile {
   filename: string;
   status: "ingested" | "pending";
+  metadata?: DocumentMeta;
   chunkCount?: number;
   pageCount?: number;
   ingestedAt?: string;
+  job?: IngestJob;
+}
+
+interface SessionUser {
+  username: string;
+  name: string;
+  roles: string[];
+}
+
+interface SessionResponse {
+  provider: string;
+  /** Null until the user signs in (never, with AUTH_PROVIDER=none). */
+  user: SessionUser | null;
+  admin: boolean;
+  error?: string;
 }
 
 interface StatusResponse {
   totalOnDisk: number;
   totalIngested: number;
-  files: PDFFile[];
+  activeJobs?: number;
+  models?: { embedding: string; chat: string; vectorStore: string };
+  files: DocumentFile[];
   error?: string;
 }
 
@@ -25,30 +60,483 @@ interface Source {
   uploadedAt?: string;
 }
 
+interface Citation {
+  marker: number;
+  id: string;
+  source: string;
+  chunkIndex?: number;
+  page?: number;
+  pageEnd?: number;
+  section?: string;
+  snippet: string;
+  score: number;
+  retrievers?: ("vector" | "keyword")[];
+  cited: boolean;
+}
+
+interface ClaimVerdict {
+  text: string;
+  support: "supported" | "partial" | "unsupported";
+  score: number;
+  reason?: string;
+}
+
+interface GroundingReport {
+  check: string;
+  action: "flag" | "strip";
+  score: number;
+  claims: ClaimVerdict[];
+  unsupported: number;
+  removed: number;
+}
+
 interface QueryResponse {
   success?: boolean;
+  conversationId?: string;
+  answerId?: string;
+  standaloneQuestion?: string;
+  /** The question translated into the documents' language, when it was. */
+  searchQuery?: string;
   answer?: string;
   sources?: Source[];
+  citations?: Citation[];
   retrievedChunks?: number;
+  usage?: { promptTokens?: number; answerTokens?: number; totalTokens?: number };
+  timing?: { embedMs: number; retrieveMs: number; generateMs: number; totalMs: number };
+  prompt?: { profile: string; version: number };
+  grounding?: GroundingReport;
+  language?: { code: string; name: string; detectedBy: string };
   error?: string;
 }
 
+interface PromptProfile {
+  name: string;
+  description: string;
+  activeVersion: number;
+}
+
+interface PromptsResponse {
+  defaultProfile: string;
+  profiles: PromptProfile[];
+}
+
 type QueryStatus = "idle" | "loading" | "success" | "error";
 
+interface ChatTurn {
+  question: string;
+  status: QueryStatus;
+  result: QueryResponse | null;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const formatDate = (iso?: string) => {
+  if (!iso) return "";
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short", day: "numeric", year: "numeric",
+  });
+};
+
+/** URL that opens a cited document (for PDFs, in the browser viewer at the cited page). */
+// The rewritten or translated question, if it differs from what was asked
+const searchedFor = (turn: ChatTurn) => {
+  const searched = turn.result?.searchQuery ?? turn.result?.standaloneQuestion;
+  return searched !== turn.question ? searched : undefined;
+};
+
+const documentUrl = (c: Citation) =>
+  `/api/documents/${encodeURIComponent(c.source)}${c.page ? `#page=${c.page}` : ""}`;
+
+const pageLabel = (c: Citation) =>
+  !c.page ? "" : c.pageEnd && c.pageEnd !== c.page ? `pp. ${c.page}–${c.pageEnd}` : `p. ${c.page}`;
+
+/**
+ * Reads a Server-Sent Events response body and calls `onEvent` for every
+ * complete `event:`/`data:` frame as it arrives.
+ */
+async function readEvents(
+  res: Response,
+  onEvent: (event: string, data: QueryResponse & { text?: string }) => void
+) {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const event = frame.match(/^event: (.*)$/m)?.[1] ?? "message";
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
+/**
+ * Renders answer text, turning inline markers like [1] or [1, 3] into
+ * citation links and the grounding check's [unverified] flags into badges.
+ */
+function AnswerText({ text, citations }: { text: string; citations: Citation[] }) {
+  const byMarker = new Map(citations.map((c) => [c.marker, c]));
+  const parts = text.split(/(\[\d+(?:\s*,\s*\d+)*\]|\[unverified\])/g);
+
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (part === "[unverified]") {
+          return (
+            <span
+              key={i}
+              title="No retrieved passage supports this statement"
+              className="mx-0.5 px-1.5 rounded bg-amber-500/20 text-amber-300 text-xs font-semibold"
+            >
+              unverified
+            </span>
+          );
+        }
+        const markers = part.match(/^\[([\d,\s]+)\]$/)?.[1].split(",").map((n) => Number(n.trim()));
+        if (!markers || !markers.every((m) => byMarker.has(m))) return <span key={i}>{part}</span>;
+        return (
+          <sup key={i} className="mx-0.5">
+            {markers.map((m) => {
+              const c = byMarker.get(m)!;
+              return (
+                <a
+                  key={m}
+                  href={documentUrl(c)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={`${c.source} ${pageLabel(c)} — “${c.snippet}”`}
+                  className="inline-block px-1 rounded bg-violet-500/20 text-violet-300 hover:bg-violet-500/40 font-semibold no-underline"
+                >
+                  {m}
+                </a>
+              );
+            })}
+          </sup>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Thumbs up/down for one answer. A thumb is saved right away; the comment
+ * and "wrong source" flag can then be added, which replaces the rating.
+ */
+function FeedbackBar({ answerId }: { answerId: string }) {
+  const [rating, setRating] = useState<"up" | "down" | null>(null);
+  const [comment, setComment] = useState("");
+  const [wrongSource, setWrongSource] = useState(false);
+  const [state, setState] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [error, setError] = useState("");
+
+  const send = async (next: "up" | "down", details = false) => {
+    setRating(next);
+    setState("saving");
+    try {
+      const res = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          answerId,
+          rating: next,
+          comment: details ? comment : undefined,
+          wrongSource: details ? wrongSource : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Could not save feedback");
+      setState("saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save feedback");
+      setState("error");
+    }
+  };
+
+  const thumb = (value: "up" | "down", label: string, icon: string) => (
+    <button
+      type="button"
+      onClick={() => send(value)}
+      disabled={state === "saving"}
+      title={label}
+      aria-label={label}
+      aria-pressed={rating === value}
+      className={`px-2 py-1 rounded-lg border transition-colors disabled:opacity-40 ${
+        rating === value
+          ? "border-violet-500/50 bg-violet-500/20 text-violet-300"
+          : "border-slate-600/50 text-slate-500 hover:text-slate-300 hover:bg-slate-700/60"
+      }`}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-600/40 space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="text-slate-500">Was this helpful?</span>
+        {thumb("up", "Helpful", "👍")}
+        {thumb("down", "Not helpful", "👎")}
+        {state === "saved" && <span className="text-emerald-400">Thanks for the feedback</span>}
+        {state === "error" && <span className="text-red-400">{error}</span>}
+      </div>
+      {rating && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={2000}
+            placeholder="What was wrong or missing? (optional)"
+            className="flex-1 min-w-[12rem] px-3 py-1.5 rounded-lg bg-slate-900/60 border border-slate-600/50 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-violet-500/50"
+          />
+          <label className="flex items-center gap-1.5 text-slate-400">
+            <input
+              type="checkbox"
+              checked={wrongSource}
+              onChange={(e) => setWrongSource(e.target.checked)}
+              className="accent-violet-500"
+            />
+            Wrong source
+          </label>
+          <button
+            type="button"
+            onClick={() => send(rating, true)}
+            disabled={state === "saving" || (!comment.trim() && !wrongSource)}
+            className="px-3 py-1.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700/60 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            Send
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Username/password form shown when the server requires signing in. */
+function SignIn({ onSignedIn }: { onSignedIn: (user: SessionUser) => void }) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [state, setState] = useState<"idle" | "signing-in">("idle");
+  const [error, setError] = useState("");
+
+  const signIn = async (e: FormEvent) => {
+    e.preventDefault();
+    setState("signing-in");
+    setError("");
+    try {
+      const res = await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Could not sign in");
+      onSignedIn(data.user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not sign in");
+      setPassword("");
+      setState("idle");
+    }
+  };
+
+  const inputClass =
+    "w-full bg-slate-700/50 border border-slate-600 rounded-xl px-4 py-2.5 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50";
+
+  return (
+    <form onSubmit={signIn} className="space-y-3">
+      <h2 className="text-xl font-semibold text-white">Sign in</h2>
+      <p className="text-sm text-slate-400">Sign in to see the documents you have access to.</p>
+      <input
+        type="text"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        placeholder="Username"
+        autoComplete="username"
+        className={inputClass}
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete="current-password"
+        className={inputClass}
+      />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={!username.trim() || !password || state === "signing-in"}
+        className="w-full py-2.5 rounded-xl font-semibold text-sm bg-violet-600 hover:bg-violet-500 text-white disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
+      >
+        {state === "signing-in" ? "Signing in…" : "Sign in"}
+      </button>
+    </form>
+  );
+}
+
+/** One answer in the thread: text with inline citations, then the cited chunks. */
+function AnswerCard({ result, status }: { result: QueryResponse; status: QueryStatus }) {
+  return (
+    <div className="space-y-4">
+      {status === "error" ? (
+        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
+          {result.error}
+        </div>
+      ) : (
+        <>
+          <div className="p-5 rounded-xl bg-slate-700/40 border border-slate-600/50">
+            <div className="flex items-center gap-2 mb-3">
+              <div className="w-6 h-6 rounded-full bg-violet-500/20 flex items-center justify-center">
+                <svg className="w-3.5 h-3.5 text-violet-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+                </svg>
+              </div>
+              <span className="text-slate-300 font-semibold text-sm">Answer</span>
+            </div>
+            <p dir="auto" className="text-slate-200 leading-relaxed text-sm whitespace-pre-wrap">
+              <AnswerText text={result.answer ?? ""} citations={result.citations ?? []} />
+              {status === "loading" && (
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-violet-400 animate-pulse" />
+              )}
+            </p>
+            {result.timing && (
+              <p className="mt-3 text-xs text-slate-600">
+                {(result.timing.totalMs / 1000).toFixed(1)}s
+                {result.usage?.totalTokens !== undefined && ` · ${result.usage.totalTokens} tokens`}
+                {result.prompt && ` · ${result.prompt.profile} v${result.prompt.version}`}
+                {result.language && result.searchQuery && ` · ${result.language.name}`}
+                {result.grounding && ` · ${Math.round(result.grounding.score * 100)}% grounded`}
+              </p>
+            )}
+            {result.grounding && result.grounding.unsupported > 0 && (
+              <p className="mt-2 text-xs text-amber-300/80">
+                {result.grounding.action === "strip"
+                  ? `${result.grounding.removed} statement${result.grounding.removed !== 1 ? "s" : ""} the documents don't support ${result.grounding.removed !== 1 ? "were" : "was"} removed from this answer.`
+                  : `${result.grounding.unsupported} statement${result.grounding.unsupported !== 1 ? "s" : ""} marked unverified — the documents don't support ${result.grounding.unsupported !== 1 ? "them" : "it"}.`}
+              </p>
+            )}
+            {status === "success" && result.answerId && <FeedbackBar answerId={result.answerId} />}
+          </div>
+
+          {result.citations && result.citations.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                Citations · {result.retrievedChunks} chunk{result.retrievedChunks !== 1 ? "s" : ""} retrieved
+              </p>
+              <ol className="space-y-2">
+                {result.citations.map((c) => (
+                  <li
+                    key={c.id}
+                    className={`p-3 rounded-lg border text-xs ${
+                      c.cited
+                        ? "bg-slate-700/50 border-violet-500/30"
+                        : "bg-slate-700/20 border-slate-600/30 opacity-70"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-1.5">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="shrink-0 px-1.5 rounded bg-violet-500/20 text-violet-300 font-semibold">{c.marker}</span>
+                        <span className="font-medium text-slate-300 truncate">{c.source}</span>
+                        {c.page && <span className="shrink-0 text-slate-500">· {pageLabel(c)}</span>}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {c.retrievers && c.retrievers.length > 0 && (
+                          <span className="text-slate-500">{c.retrievers.join(" + ")}</span>
+                        )}
+                        <span className="text-slate-600">score {c.score.toFixed(2)}</span>
+                        <a
+                          href={documentUrl(c)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-violet-400 hover:text-violet-300"
+                        >
+                          Open{c.page ? ` p. ${c.page}` : ""} ↗
+                        </a>
+                      </div>
+                    </div>
+                    {c.section && <p className="mb-1 text-slate-500 truncate">§ {c.section}</p>}
+                    <blockquote className="pl-2 border-l-2 border-slate-600 text-slate-400 italic">
+                      “{c.snippet}”
+                    </blockquote>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : result.sources && result.sources.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                Sources · {result.retrievedChunks} chunk{result.retrievedChunks !== 1 ? "s" : ""} retrieved
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {result.sources.map((s, i) => (
+                  <div key={i} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-700/50 border border-slate-600/50 text-xs text-slate-400">
+                    <svg className="w-3.5 h-3.5 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                    <span className="font-medium text-slate-300">{s.source ?? "Unknown"}</span>
+                    {s.uploadedAt && (
+                      <span className="text-slate-600">· {formatDate(s.uploadedAt)}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
 // ── Component ──────────────────────────────────────────────────────────────
 
 export default function RAGChat() {
+  // Who is signed in; documents load once this is known
+  const [session, setSession] = useState<SessionResponse | null>(null);
+
   // PDF status
   const [pdfStatus, setPdfStatus] = useState<StatusResponse | null>(null);
   const [statusLoading, setStatusLoading] = useState(true);
 
-  // Query
+  // Conversation
   const [question, setQuestion] = useState("");
-  const [queryStatus, setQueryStatus] = useState<QueryStatus>("idle");
-  const [queryResult, setQueryResult] = useState<QueryResponse | null>(null);
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+
+  // Documents the next question is scoped to (empty = search everything)
+  const [selectedSources, setSelectedSources] = useState<string[]>([]);
+  const toggleSource = (filename: string) =>
+    setSelectedSources((prev) =>
+      prev.includes(filename) ? prev.filter((s) => s !== filename) : [...prev, filename]
+    );
+  const queryStatus: QueryStatus = turns[turns.length - 1]?.status ?? "idle";
+
+  // Prompt profile (answer style) for the next question
+  const [prompts, setPrompts] = useState<PromptsResponse | null>(null);
+  const [profile, setProfile] = useState("");
 
-  // Load PDF status on mount
   useEffect(() => {
+    fetch("/api/auth/session")
+      .then((r) => r.json())
+      .then((data: SessionResponse) => setSession(data))
+      .catch(() =>
+        setSession({ provider: "none", user: null, admin: false, error: "Could not reach /api/auth/session" })
+      );
+  }, []);
+
+  // Load PDF status once signed in, then poll while ingestion jobs are active
+  const [statusTick, setStatusTick] = useState(0);
+  useEffect(() => {
+    if (!session?.user) return;
     fetch("/api/status")
       .then((r) => r.json())
       .then((data: StatusResponse) => {
@@ -59,38 +547,107 @@ export default function RAGChat() {
         setPdfStatus({ totalOnDisk: 0, totalIngested: 0, files: [], error: "Could not reach /api/status" });
         setStatusLoading(false);
       });
-  }, []);
+  }, [statusTick, session]);
+
+  useEffect(() => {
+    if (!session?.user) return;
+    fetch("/api/prompts")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data: PromptsResponse | null) => {
+        setPrompts(data);
+        if (data) setProfile(data.defaultProfile);
+      })
+      .catch(() => setPrompts(null));
+  }, [session]);
+
+  useEffect(() => {
+    if (!pdfStatus?.activeJobs) return;
+    const timer = setTimeout(() => setStatusTick((t) => t + 1), 2000);
+    return () => clearTimeout(timer);
+  }, [pdfStatus]);
+
+  const retryJob = async (jobId: string) => {
+    await fetch("/api/ingest/jobs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ retry: jobId }),
+    }).catch(() => undefined);
+    setStatusTick((t) => t + 1);
+  };
+
+  const signOut = async () => {
+    await fetch("/api/auth/session", { method: "DELETE" }).catch(() => undefined);
+    setSession((prev) => prev && { ...prev, user: null, admin: false });
+    setPdfStatus(null);
+    setStatusLoading(true);
+    setTurns([]);
+    setConversationId(null);
+    setSelectedSources([]);
+  };
+
+  // Updates the latest turn in the thread (the one being answered)
+  const updateLastTurn = (update: (turn: ChatTurn) => Partial<ChatTurn>) =>
+    setTurns((prev) =>
+      prev.map((t, i) => (i === prev.length - 1 ? { ...t, ...update(t) } : t))
+    );
+
+  const startNewConversation = () => {
+    if (queryStatus === "loading") return;
+    setTurns([]);
+    setConversationId(null);
+    setQuestion("");
+  };
 
   // Submit question
   const handleQuery = async (e: FormEvent) => {
     e.preventDefault();
     if (!question.trim() || queryStatus === "loading") return;
 
-    setQueryStatus("loading");
-    setQueryResult(null);
+    const asked = question.trim();
+    setTurns((prev) => [...prev, { question: asked, status: "loading", result: null }]);
+    setQuestion("");
 
     try {
       const res = await fetch("/api/query", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question: question.trim() }),
+        body: JSON.stringify({
+          question: asked,
+          conversationId: conversationId ?? undefined,
+          filters: selectedSources.length > 0 ? { sources: selectedSources } : undefined,
+          profile: profile || undefined,
+          stream: true,
+        }),
+      });
+
+      // Validation errors still come back as plain JSON
+      if (!res.ok || !res.headers.get("content-type")?.includes("text/event-stream")) {
+        const data: QueryResponse = await res.json();
+        if (data.conversationId) setConversationId(data.conversationId);
+        updateLastTurn(() => ({ status: res.ok && !data.error ? "success" : "error", result: data }));
+        return;
+      }
+
+      let failed = false;
+      await readEvents(res, (event, data) => {
+        if (event === "sources") {
+          if (data.conversationId) setConversationId(data.conversationId);
+          updateLastTurn(() => ({ result: { ...data, answer: "" } }));
+        } else if (event === "token") {
+          updateLastTurn((t) => ({ result: { ...t.result, answer: (t.result?.answer ?? "") + (data.text ?? "") } }));
+        } else if (event === "done") {
+          updateLastTurn((t) => ({ result: { ...t.result, ...data } }));
+        } else if (event === "error") {
+          failed = true;
+          updateLastTurn((t) => ({ result: { ...t.result, error: data.error } }));
+        }
       });
-      const data: QueryResponse = await res.json();
-      setQueryStatus(res.ok && !data.error ? "success" : "error");
-      setQueryResult(data);
+      updateLastTurn(() => ({ status: failed ? "error" : "success" }));
     } catch {
-      setQueryStatus("error");
-      setQueryResult({ error: "Network error — please try again." });
+      updateLastTurn(() => ({ status: "error", result: { error: "Network error — please try again." } }));
     }
   };
 
-  const formatDate = (iso?: string) => {
-    if (!iso) return "";
-    return new Date(iso).toLocaleDateString("en-US", {
-      month: "short", day: "numeric", year: "numeric",
-    });
-  };
-
   // ── Render ───────────────────────────────────────────────────────────────
 
   return (
@@ -101,209 +658,334 @@ export default function RAGChat() {
         <header className="text-center space-y-2 pt-4">
           <div className="inline-flex items-center gap-2 bg-blue-500/10 border border-blue-500/20 rounded-full px-4 py-1.5 text-blue-400 text-sm font-medium mb-4">
             <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse" />
-            Powered by Gemini · Pinecone
+            {pdfStatus?.models
+              ? `Powered by ${pdfStatus.models.chat} · ${pdfStatus.models.vectorStore}`
+              : "Powered by Gemini · Pinecone"}
           </div>
           <h1 className="text-4xl font-bold tracking-tight text-white">
             Document Q&amp;A
           </h1>
           <p className="text-slate-400 text-lg">
-            Ask questions about your loaded PDF documents
+            Ask questions about your loaded documents
           </p>
+          {session?.user && session.provider !== "none" && (
+            <p className="text-xs text-slate-500">
+              Signed in as <span className="text-slate-300">{session.user.name}</span> ·{" "}
+              <button type="button" onClick={signOut} className="text-violet-400 hover:text-violet-300">
+                Sign out
+              </button>
+            </p>
+          )}
+          {session?.admin && (
+            <p className="text-xs">
+              <Link href="/admin" className="text-violet-400 hover:text-violet-300">
+                Admin console →
+              </Link>
+            </p>
+          )}
         </header>
 
-        {/* ── Loaded PDFs panel ── */}
-        <section className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-5 shadow-xl">
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center gap-2">
-              <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
-              </svg>
-              <h2 className="text-base font-semibold text-white">Loaded Documents</h2>
-            </div>
-
-            {!statusLoading && pdfStatus && (
-              <span className={`text-xs px-2.5 py-1 rounded-full font-medium ${
-                pdfStatus.totalIngested > 0
-                  ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/20"
-                  : "bg-amber-500/15 text-amber-400 border border-amber-500/20"
-              }`}>
-                {pdfStatus.totalIngested} / {pdfStatus.totalOnDisk} indexed
-              </span>
+        {session && !session.user ? (
+          <section className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-6 shadow-xl">
+            {session.error ? (
+              <p className="text-red-400 text-sm">{session.error}</p>
+            ) : (
+              <SignIn
+                onSignedIn={(user) =>
+                  setSession({ ...session, user, admin: user.roles.includes("admin") })
+                }
+              />
             )}
-          </div>
+          </section>
+        ) : (
+          <>
 
-          {statusLoading ? (
-            <div className="flex items-center gap-2 text-slate-500 text-sm py-2">
-              <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-              </svg>
-              Checking indexed documents…
-            </div>
-          ) : pdfStatus?.error ? (
-            <p className="text-red-400 text-sm">{pdfStatus.error}</p>
-          ) : pdfStatus?.files.length === 0 ? (
-            <div className="rounded-xl bg-amber-500/10 border border-amber-500/20 p-4 text-sm text-amber-300">
-              <p className="font-semibold mb-1">No PDFs found</p>
-              <p className="text-amber-400/70">
-                Add PDF files to the <code className="px-1 py-0.5 rounded bg-slate-700 text-amber-300 font-mono text-xs">pdfs/</code> folder at the project root, then restart the server.
-              </p>
-            </div>
-          ) : (
-            <ul className="space-y-2">
-              {pdfStatus!.files.map((f) => (
-                <li key={f.filename} className="flex items-center justify-between gap-3 py-2.5 px-3 rounded-xl bg-slate-700/40 border border-slate-600/40">
-                  <div className="flex items-center gap-2 min-w-0">
-                    <svg className="w-4 h-4 shrink-0 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                    </svg>
-                    <span className="text-sm text-slate-200 truncate font-medium">{f.filename}</span>
-                  </div>
-
-                  <div className="flex items-center gap-2 shrink-0">
-                    {f.status === "ingested" ? (
-                      <>
-                        <span className="text-xs text-slate-500">{f.chunkCount} chunks</span>
-                        {f.pageCount && <span className="text-xs text-slate-600">· {f.pageCount}p</span>}
-                        <span className="text-xs text-slate-600">{formatDate(f.ingestedAt)}</span>
-                        <span className="flex items-center gap-1 text-xs text-emerald-400 bg-emerald-500/10 border border-emerald-500/20 px-2 py-0.5 rounded-full">
-                          <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" />
-                          Ready
-                        </span>
-                      </>
-                    ) : (
-                      <span className="flex items-center gap-1 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded-full">
-                        <span className="w-1.5 h-1.5 rounded-full bg-amber-400 animate-pulse" />
-                        Pending restart
-                      </span>
-                    )}
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-
-          <p className="mt-3 text-xs text-slate-600">
-            Documents are auto-indexed from <code className="px-1 py-0.5 rounded bg-slate-700/60 font-mono text-slate-500">pdfs/</code> when the server starts. Restart the server after adding new PDFs.
-          </p>
-        </section>
-
-        {/* ── Query section ── */}
-        <section className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-6 shadow-xl">
-          <div className="flex items-center gap-3 mb-5">
-            <div className="flex items-center justify-center w-8 h-8 rounded-full bg-violet-500/20 text-violet-400 border border-violet-500/30">
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
-              </svg>
-            </div>
-            <h2 className="text-xl font-semibold text-white">Ask a Question</h2>
-          </div>
+            {/* ── Loaded documents panel ── */}
+            <section className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-5 shadow-xl">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                  </svg>
+                  <h2 className="text-base font-semibold text-white">Loaded Documents</h2>
+                </div>
 
-          <form onSubmit={handleQuery} className="space-y-4">
-            <div className="relative">
-              <textarea
-                value={question}
-                onChange={(e) => setQuestion(e.target.value)}
-                onKeyDown={(e) => {
-                  if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
-                    e.preventDefault();
-                    if (question.trim() && queryStatus !== "loading") {
-                      handleQuery(e as unknown as FormEvent);
-                    }
-                  }
-                }}
-                placeholder="Ask anything about the loaded documents…"
-                rows={3}
-                maxLength={2000}
-                className="w-full bg-slate-700/50 border border-slate-600 rounded-xl px-4 py-3 text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 resize-none text-sm transition-colors"
-              />
-              <span className="absolute bottom-3 right-3 text-xs text-slate-600">
-                {question.length}/2000
-              </span>
-            </div>
+                {!statusLoading && pdfStatus && (
+                  <span className={`text-xs px-2.5 py-1 rounded-full font-medium ${
+                    pdfStatus.totalIngested > 0
+                      ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/20"
+                      : "bg-amber-500/15 text-amber-400 border border-amber-500/20"
+                  }`}>
+                    {pdfStatus.totalIngested} / {pdfStatus.totalOnDisk} indexed
+                  </span>
+                )}
+              </div>
 
-            <button
-              type="submit"
-              disabled={!question.trim() || queryStatus === "loading" || pdfStatus?.totalIngested === 0}
-              className={`
-                w-full py-3 rounded-xl font-semibold text-sm transition-all duration-200
-                ${
-                  !question.trim() || queryStatus === "loading" || pdfStatus?.totalIngested === 0
-                    ? "bg-slate-700 text-slate-500 cursor-not-allowed"
-                    : "bg-violet-600 hover:bg-violet-500 text-white shadow-lg shadow-violet-500/20 active:scale-[0.98]"
-                }
-              `}
-            >
-              {queryStatus === "loading" ? (
-                <span className="flex items-center justify-center gap-2">
+              {statusLoading ? (
+                <div className="flex items-center gap-2 text-slate-500 text-sm py-2">
                   <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                   </svg>
-                  Searching documents…
-                </span>
-              ) : (
-                "Ask Question"
-              )}
-            </button>
-
-            <p className="text-xs text-slate-600 text-center">
-              <kbd className="px-1.5 py-0.5 rounded bg-slate-700 text-slate-400 font-mono text-xs">Ctrl+Enter</kbd> to submit
-            </p>
-          </form>
-
-          {/* Answer */}
-          {queryResult && (
-            <div className="mt-6 space-y-4">
-              {queryStatus === "error" ? (
-                <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
-                  {queryResult.error}
+                  Checking indexed documents…
+                </div>
+              ) : pdfStatus?.error ? (
+                <p className="text-red-400 text-sm">{pdfStatus.error}</p>
+              ) : pdfStatus?.files.length === 0 ? (
+                <div className="rounded-xl bg-amber-500/10 border border-amber-500/20 p-4 text-sm text-amber-300">
+                  <p className="font-semibold mb-1">No documents found</p>
+                  <p className="text-amber-400/70">
+                    Add PDF, Word (.docx), Markdown, HTML or text files to the <code className="px-1 py-0.5 rounded bg-slate-700 text-amber-300 font-mono text-xs">pdfs/</code> folder at the project root — they are indexed automatically.
+                  </p>
                 </div>
               ) : (
-                <>
-                  <div className="p-5 rounded-xl bg-slate-700/40 border border-slate-600/50">
-                    <div className="flex items-center gap-2 mb-3">
-                      <div className="w-6 h-6 rounded-full bg-violet-500/20 flex items-center justify-center">
-                        <svg className="w-3.5 h-3.5 text-violet-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+                <ul className="space-y-2">
+                  {pdfStatus!.files.map((f) => (
+                    <li key={f.filename} className="flex items-center justify-between gap-3 py-2.5 px-3 rounded-xl bg-slate-700/40 border border-slate-600/40">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <input
+                          type="checkbox"
+                          checked={selectedSources.includes(f.filename)}
+                          onChange={() => toggleSource(f.filename)}
+                          disabled={f.status !== "ingested"}
+                          title="Only search the selected documents"
+                          className="shrink-0 accent-violet-500 disabled:opacity-30"
+                        />
+                        <svg className="w-4 h-4 shrink-0 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                         </svg>
+                        <div className="min-w-0">
+                          <p className="text-sm text-slate-200 truncate font-medium">{f.filename}</p>
+                          {f.metadata && Object.keys(f.metadata).length > 0 && (
+                            <p className="text-xs text-slate-500 truncate">
+                              {[
+                                f.metadata.category,
+                                f.metadata.department,
+                                f.metadata.version && `v${f.metadata.version}`,
+                                f.metadata.effectiveDate && `effective ${f.metadata.effectiveDate}`,
+                                f.metadata.access && `access: ${f.metadata.access.join(", ")}`,
+                              ].filter(Boolean).join(" · ")}
+                            </p>
+                          )}
+                          {f.job?.state === "running" && f.job.progress.total > 0 && (
+                            <div className="mt-1.5 h-1 w-40 rounded-full bg-slate-600/60 overflow-hidden">
+                              <div
+                                className="h-full bg-violet-400 transition-all"
+                                style={{ width: `${(100 * f.job.progress.embedded) / f.job.progress.total}%` }}
+                              />
+                            </div>
+                          )}
+                          {f.job?.state === "failed" && (
+                            <p className="mt-0.5 text-xs text-red-400/80 truncate" title={f.job.error}>{f.job.error}</p>
+                          )}
+                        </div>
                       </div>
-                      <span className="text-slate-300 font-semibold text-sm">Answer</span>
-                    </div>
-                    <p className="text-slate-200 leading-relaxed text-sm whitespace-pre-wrap">
-                      {queryResult.answer}
-                    </p>
-                  </div>
 
-                  {queryResult.sources && queryResult.sources.length > 0 && (
-                    <div className="space-y-2">
-                      <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
-                        Sources · {queryResult.retrievedChunks} chunk{queryResult.retrievedChunks !== 1 ? "s" : ""} retrieved
-                      </p>
-                      <div className="flex flex-wrap gap-2">
-                        {queryResult.sources.map((s, i) => (
-                          <div key={i} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-700/50 border border-slate-600/50 text-xs text-slate-400">
-                            <svg className="w-3.5 h-3.5 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                            </svg>
-                            <span className="font-medium text-slate-300">{s.source ?? "Unknown"}</span>
-                            {s.uploadedAt && (
-                              <span className="text-slate-600">· {formatDate(s.uploadedAt)}</span>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {f.job?.state === "running" ? (
+                          <span className="flex items-center gap-1 text-xs text-violet-300 bg-violet-500/10 border border-violet-500/20 px-2 py-0.5 rounded-full">
+                            <span className="w-1.5 h-1.5 rounded-full bg-violet-400 animate-pulse" />
+                            {f.job.progress.total > 0
+                              ? `Embedding ${f.job.progress.embedded}/${f.job.progress.total}`
+                              : "Parsing…"}
+                          </span>
+                        ) : f.job?.state === "queued" ? (
+                          <span className="flex items-center gap-1 text-xs text-slate-400 bg-slate-500/10 border border-slate-500/20 px-2 py-0.5 rounded-full">
+                            <span className="w-1.5 h-1.5 rounded-full bg-slate-400" />
+                            Queued
+                          </span>
+                        ) : f.job?.state === "failed" ? (
+                          <>
+                            <span className="flex items-center gap-1 text-xs text-red-400 bg-red-500/10 border border-red-500/20 px-2 py-0.5 rounded-full">
+                              <span className="w-1.5 h-1.5 rounded-full bg-red-400" />
+                              Failed
+                            </span>
+                            {session?.admin && (
+                              <button
+                                type="button"
+                                onClick={() => retryJob(f.job!.id)}
+                                className="text-xs px-2 py-0.5 rounded-full border border-slate-500/40 text-slate-300 hover:bg-slate-600/50 transition-colors"
+                              >
+                                Retry
+                              </button>
                             )}
-                          </div>
-                        ))}
+                          </>
+                        ) : f.status === "ingested" ? (
+                          <>
+                            <span className="text-xs text-slate-500">{f.chunkCount} chunks</span>
+                            {f.pageCount && <span className="text-xs text-slate-600">· {f.pageCount}p</span>}
+                            <span className="text-xs text-slate-600">{formatDate(f.ingestedAt)}</span>
+                            <span className="flex items-center gap-1 text-xs text-emerald-400 bg-emerald-500/10 border border-emerald-500/20 px-2 py-0.5 rounded-full">
+                              <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" />
+                              Ready
+                            </span>
+                          </>
+                        ) : (
+                          <span className="flex items-center gap-1 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded-full">
+                            <span className="w-1.5 h-1.5 rounded-full bg-amber-400 animate-pulse" />
+                            Pending
+                          </span>
+                        )}
                       </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <p className="mt-3 text-xs text-slate-600">
+                Tick documents to limit your questions to them. Documents in <code className="px-1 py-0.5 rounded bg-slate-700/60 font-mono text-slate-500">pdfs/</code> are auto-indexed in the background as they are added; you can also upload them through <code className="px-1 py-0.5 rounded bg-slate-700/60 font-mono text-slate-500">/api/documents</code>.
+              </p>
+            </section>
+
+            {/* ── Query section ── */}
+            <section className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-6 shadow-xl">
+              <div className="flex items-center gap-3 mb-5">
+                <div className="flex items-center justify-center w-8 h-8 rounded-full bg-violet-500/20 text-violet-400 border border-violet-500/30">
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                  </svg>
+                </div>
+                <h2 className="text-xl font-semibold text-white">Ask a Question</h2>
+                {turns.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={startNewConversation}
+                    disabled={queryStatus === "loading"}
+                    className="ml-auto text-xs px-3 py-1.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700/60 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  >
+                    + New conversation
+                  </button>
+                )}
+              </div>
+
+              {/* Thread */}
+              {turns.length > 0 && (
+                <div className="mb-6 space-y-6">
+                  {turns.map((turn, i) => (
+                    <div key={i} className="space-y-3">
+                      <div className="flex justify-end">
+                        <div dir="auto" className="max-w-[85%] px-4 py-2.5 rounded-2xl rounded-br-sm bg-violet-600/30 border border-violet-500/30 text-sm text-slate-100 whitespace-pre-wrap">
+                          {turn.question}
+                        </div>
+                      </div>
+                      {searchedFor(turn) && (
+                        <p className="text-right text-xs text-slate-600 italic">
+                          Searched for: “{searchedFor(turn)}”
+                        </p>
+                      )}
+                      {turn.result && (turn.status !== "loading" || turn.result.answer !== undefined) ? (
+                        <AnswerCard result={turn.result} status={turn.status} />
+                      ) : (
+                        <div className="flex items-center gap-2 text-slate-500 text-sm">
+                          <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                          </svg>
+                          Searching documents…
+                        </div>
+                      )}
                     </div>
-                  )}
-                </>
+                  ))}
+                </div>
               )}
-            </div>
-          )}
-        </section>
+
+              <form onSubmit={handleQuery} className="space-y-4">
+                <div className="relative">
+                  <textarea
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    onKeyDown={(e) => {
+                      if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+                        e.preventDefault();
+                        if (question.trim() && queryStatus !== "loading") {
+                          handleQuery(e as unknown as FormEvent);
+                        }
+                      }
+                    }}
+                    placeholder={turns.length > 0 ? "Ask a follow-up…" : "Ask anything about the loaded documents…"}
+                    rows={3}
+                    maxLength={2000}
+                    className="w-full bg-slate-700/50 border border-slate-600 rounded-xl px-4 py-3 text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 resize-none text-sm transition-colors"
+                  />
+                  <span className="absolute bottom-3 right-3 text-xs text-slate-600">
+                    {question.length}/2000
+                  </span>
+                </div>
+
+                {prompts && prompts.profiles.length > 1 && (
+                  <label className="flex items-center gap-2 text-xs text-slate-400">
+                    Answer style
+                    <select
+                      value={profile}
+                      onChange={(e) => setProfile(e.target.value)}
+                      className="bg-slate-700/50 border border-slate-600 rounded-lg px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+                    >
+                      {prompts.profiles.map((p) => (
+                        <option key={p.name} value={p.name}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="truncate text-slate-500">
+                      {prompts.profiles.find((p) => p.name === profile)?.description}
+                    </span>
+                  </label>
+                )}
+
+                {selectedSources.length > 0 && (
+                  <div className="flex items-center gap-2 text-xs text-violet-300">
+                    <span className="truncate">
+                      Searching only: {selectedSources.join(", ")}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedSources([])}
+                      className="shrink-0 px-2 py-0.5 rounded-full border border-slate-600 text-slate-400 hover:bg-slate-700/60 transition-colors"
+                    >
+                      Search all
+                    </button>
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={!question.trim() || queryStatus === "loading" || pdfStatus?.totalIngested === 0}
+                  className={`
+                    w-full py-3 rounded-xl font-semibold text-sm transition-all duration-200
+                    ${
+                      !question.trim() || queryStatus === "loading" || pdfStatus?.totalIngested === 0
+                        ? "bg-slate-700 text-slate-500 cursor-not-allowed"
+                        : "bg-violet-600 hover:bg-violet-500 text-white shadow-lg shadow-violet-500/20 active:scale-[0.98]"
+                    }
+                  `}
+                >
+                  {queryStatus === "loading" ? (
+                    <span className="flex items-center justify-center gap-2">
+                      <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                      </svg>
+                      Answering…
+                    </span>
+                  ) : (
+                    "Ask Question"
+                  )}
+                </button>
+
+                <p className="text-xs text-slate-600 text-center">
+                  <kbd className="px-1.5 py-0.5 rounded bg-slate-700 text-slate-400 font-mono text-xs">Ctrl+Enter</kbd> to submit
+                </p>
+              </form>
+
+            </section>
+          </>
+        )}
 
         {/* Footer */}
         <footer className="text-center text-xs text-slate-600 pb-4">
-          gemini-embedding-001 · gemini-2.5-flash · Pinecone
+          {pdfStatus?.models
+            ? `${pdfStatus.models.embedding} · ${pdfStatus.models.chat} · ${pdfStatus.models.vectorStore}`
+            : "gemini-embedding-001 · gemini-2.5-flash · Pinecone"}
         </footer>
       </div>
     </div>
@@ -0,0 +1,130 @@
+import { getRagConfig } from "./config";
+import { DocumentMeta, readDocumentMeta } from "./documentMetadata";
+import { LocalAuthProvider } from "./localAuth";
+import type { MetadataFilter } from "./vectorStore";
+
+/** Role that may read every document and use the admin and ingestion APIs. */
+export const ADMIN_ROLE = "admin";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface AuthUser {
+  username: string;
+  name: string;
+  /**
+   * Access labels the user holds (e.g. `all-employees`, `managers`), plus
+   * `admin` for administrators. A document is readable when it carries any
+   * of them.
+   */
+  roles: string[];
+}
+
+export interface Session {
+  token: string;
+  user: AuthUser;
+  expiresAt: string;
+}
+
+/**
+ * Identifies callers. The local provider checks its own users file and
+ * issues signed tokens; an SSO provider (OIDC, SAML, or a trusted proxy
+ * such as oauth2-proxy) only needs `authenticate`, mapping the IdP's
+ * groups onto access labels — sign-in then happens at the IdP.
+ */
+export interface AuthProvider {
+  readonly name: string;
+  /** The user a request belongs to, or undefined if it carries no valid credentials. */
+  authenticate(req: Request): Promise<AuthUser | undefined>;
+  /** Exchanges a username and password for a session. Undefined if they are wrong. */
+  login?(username: string, password: string): Promise<Session | undefined>;
+}
+
+// With AUTH_PROVIDER=none every caller is treated as this user
+const ANONYMOUS: AuthUser = { username: "anonymous", name: "Anonymous", roles: [ADMIN_ROLE] };
+
+// ── Factory ────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the provider chosen by AUTH_PROVIDER. Returns undefined for
+ * `none`, where sign-in is off and everyone may read everything.
+ */
+export function createAuthProvider(): AuthProvider | undefined {
+  const { auth } = getRagConfig();
+
+  switch (auth.provider) {
+    case "none":
+      return undefined;
+    case "local":
+      if (!auth.jwtSecret || auth.jwtSecret.length < 32) {
+        throw new Error("AUTH_JWT_SECRET must be set to at least 32 characters for AUTH_PROVIDER=local");
+      }
+      return new LocalAuthProvider(auth.jwtSecret, auth.sessionTtlSeconds);
+  }
+}
+
+/**
+ * Identifies the caller, optionally requiring a role. Returns the user, or
+ * an error with the status to respond with (401 without valid credentials,
+ * 403 without the role, 500 if auth is misconfigured).
+ */
+export async function authenticate(
+  req: Request,
+  role?: string
+): Promise<{ user: AuthUser } | { error: string; status: 401 | 403 | 500 }> {
+  let user: AuthUser | undefined;
+  try {
+    const provider = createAuthProvider();
+    user = provider ? await provider.authenticate(req) : ANONYMOUS;
+  } catch (error) {
+    console.error("[RAG] ✗ Authentication failed:", error instanceof Error ? error.message : error);
+    return { error: (error as Error).message, status: 500 };
+  }
+
+  if (!user) return { error: "Sign in required", status: 401 };
+  if (role && !user.roles.includes(role) && !isAdmin(user)) {
+    return { error: `This requires the ${role} role`, status: 403 };
+  }
+  return { user };
+}
+
+// ── Document access ────────────────────────────────────────────────────────
+
+export function isAdmin(user: AuthUser): boolean {
+  return user.roles.includes(ADMIN_ROLE);
+}
+
+/** Labels a document's chunks are stored with: its own, else DEFAULT_ACCESS_LABELS. */
+export function documentAccess(meta: DocumentMeta): string[] {
+  return meta.access ?? getRagConfig().auth.defaultAccess;
+}
+
+/** Whether `user` may read a document carrying `labels`. */
+export function canAccess(user: AuthUser, labels: string[]): boolean {
+  return isAdmin(user) || labels.some((label) => user.roles.includes(label));
+}
+
+/**
+ * Whether `user` may open a document, judged by its sidecar's current
+ * labels. If the sidecar can't be read, only admins may.
+ */
+export function canReadDocument(user: AuthUser, documentPath: string): boolean {
+  try {
+    return canAccess(user, documentAccess(readDocumentMeta(documentPath)));
+  } catch {
+    return isAdmin(user);
+  }
+}
+
+/**
+ * Narrows a vector-store filter to the chunks `user` may read, so
+ * restricted text is never retrieved (let alone put in a prompt).
+ * Admins are not narrowed.
+ */
+export function restrictToUser(
+  filter: MetadataFilter | undefined,
+  user: AuthUser
+): MetadataFilter | undefined {
+  if (isAdmin(user)) return filter;
+  const access: MetadataFilter = { access: { $in: user.roles } };
+  return filter ? { $and: [filter, access] } : access;
+}
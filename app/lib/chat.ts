@@ -0,0 +1,150 @@
+import { GoogleGenerativeAI, ResponseSchema } from "@google/generative-ai";
+import { getRagConfig } from "./config";
+import { FakeChat } from "./fakeProviders";
+import type { JsonSchema } from "./jsonSchema";
+import { OpenAICompatibleChat } from "./openaiCompatible";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ChatUsage {
+  promptTokens?: number;
+  answerTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  /** Upper bound on generated tokens; the model's default when unset. */
+  maxTokens?: number;
+  /**
+   * Constrains the reply to one JSON value of this shape, where the
+   * provider supports it. Callers must still validate the reply.
+   */
+  responseSchema?: JsonSchema;
+}
+
+export interface ChatResult {
+  text: string;
+  usage?: ChatUsage;
+}
+
+/** A text-in, text-out LLM. */
+export interface ChatProvider {
+  readonly modelName: string;
+  generate(prompt: string, options?: ChatOptions): Promise<ChatResult>;
+  /**
+   * Generates incrementally, calling `onToken` with each piece of text as
+   * it arrives. Resolves with the full text once the model is done.
+   */
+  stream(
+    prompt: string,
+    onToken: (text: string) => void,
+    options?: ChatOptions
+  ): Promise<ChatResult>;
+}
+
+// ── Gemini ─────────────────────────────────────────────────────────────────
+
+/** ChatProvider backed by the Gemini SDK (`generateContent[Stream]`). */
+export class GeminiChat implements ChatProvider {
+  private genai: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly modelName: string, private baseUrl?: string) {
+    this.genai = new GoogleGenerativeAI(apiKey);
+  }
+
+  private model(options: ChatOptions = {}) {
+    // GEMINI_BASE_URL includes the API version; the SDK wants them apart
+    const custom = this.baseUrl?.match(/^(.*)\/(v\d\w*)\/?$/);
+    return this.genai.getGenerativeModel(
+      {
+        model: this.modelName,
+        generationConfig: {
+          temperature: options.temperature,
+          maxOutputTokens: options.maxTokens,
+          ...(options.responseSchema
+            ? {
+                responseMimeType: "application/json",
+                responseSchema: toGeminiSchema(options.responseSchema),
+              }
+            : {}),
+        },
+      },
+      custom ? { baseUrl: custom[1], apiVersion: custom[2] } : undefined
+    );
+  }
+
+  async generate(prompt: string, options?: ChatOptions): Promise<ChatResult> {
+    const result = await this.model(options).generateContent(prompt);
+    return {
+      text: result.response.text(),
+      usage: geminiUsage(result.response.usageMetadata),
+    };
+  }
+
+  async stream(
+    prompt: string,
+    onToken: (text: string) => void,
+    options?: ChatOptions
+  ): Promise<ChatResult> {
+    const result = await this.model(options).generateContentStream(prompt);
+    let text = "";
+    for await (const part of result.stream) {
+      const piece = part.text();
+      if (!piece) continue;
+      text += piece;
+      onToken(piece);
+    }
+    return { text, usage: geminiUsage((await result.response).usageMetadata) };
+  }
+}
+
+// Gemini's schema is the same OpenAPI subset, except that enums are
+// declared as a string format
+function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  const { properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(schema.enum ? { format: "enum" } : {}),
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([name, p]) => [name, toGeminiSchema(p)])
+          ),
+        }
+      : {}),
+    ...(items ? { items: toGeminiSchema(items) } : {}),
+  } as ResponseSchema;
+}
+
+function geminiUsage(
+  usage?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number }
+): ChatUsage | undefined {
+  return usage
+    ? {
+        promptTokens: usage.promptTokenCount,
+        answerTokens: usage.candidatesTokenCount,
+        totalTokens: usage.totalTokenCount,
+      }
+    : undefined;
+}
+
+// ── Factory ────────────────────────────────────────────────────────────────
+
+/** Returns the chat provider selected by CHAT_PROVIDER. */
+export function createChatProvider(): ChatProvider {
+  const { chat, gemini, openai } = getRagConfig();
+
+  switch (chat.provider) {
+    case "fake":
+      return new FakeChat(chat.model);
+    case "openai":
+      return new OpenAICompatibleChat({
+        baseUrl: openai.baseUrl!,
+        apiKey: openai.apiKey,
+        modelName: chat.model,
+      });
+    case "gemini":
+      return new GeminiChat(gemini.apiKey!, chat.model, gemini.baseUrl);
+  }
+}
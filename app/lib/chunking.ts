@@ -0,0 +1,305 @@
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { STOP_WORDS } from "./text";
+
+// Target chunk size in characters (both strategies)
+const CHUNK_SIZE = 1000;
+
+// Characters shared by neighbouring chunks (recursive strategy only)
+const CHUNK_OVERLAP = 200;
+
+// A table larger than this is split between rows rather than kept whole
+const MAX_TABLE_SIZE = 2 * CHUNK_SIZE;
+
+// Chunks shorter than this (e.g. a bare heading) merge into the next section
+const MIN_CHUNK_SIZE = 100;
+
+// Separator between section-path levels, e.g. "Leave Policy > 3.1 Leave Encashment"
+export const SECTION_SEPARATOR = " > ";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * - `recursive`: fixed-size character splitting with overlap (the original)
+ * - `structured`: splits on headings, numbered clauses, list items and
+ *   tables, never across sections, and records each chunk's section path
+ */
+export type ChunkingStrategy = "recursive" | "structured";
+
+export const CHUNKING_STRATEGIES: readonly ChunkingStrategy[] = ["recursive", "structured"];
+
+export interface DocumentChunk {
+  text: string;
+  /** Headings above the chunk, outermost first, joined by SECTION_SEPARATOR. */
+  sectionPath?: string;
+}
+
+type LineKind = "heading" | "clause" | "table" | "blank" | "text";
+
+interface Line {
+  start: number;
+  end: number;
+  kind: LineKind;
+  level?: number;
+  title?: string;
+  /** An ALL-CAPS heading, which may continue on the next line. */
+  caps?: boolean;
+}
+
+// A run of lines that should stay together, tagged with its section path
+interface Block {
+  start: number;
+  end: number;
+  table: boolean;
+  path: string;
+}
+
+// ── Line classification ────────────────────────────────────────────────────
+
+// "3.1 Leave Encashment", "4) Notice period", "## Benefits"
+const NUMBERED = /^(\d+(?:\.\d+)+\.?|\d+[.)])\s+(\S.*)$/;
+const MARKDOWN_HEADING = /^(#{1,6})\s+(\S.*)$/;
+const BULLET = /^[•●▪◦*–-]\s*\S/;
+
+// Words that end a sentence lead-in ("… as follows:") rather than a heading
+const LEAD_IN_WORDS = new Set(["below", "follows", "following", "include", "includes", "including"]);
+
+function classify(line: string, lastHeadingLevel: number): Omit<Line, "start" | "end"> {
+  const trimmed = line.trim();
+  if (!trimmed) return { kind: "blank" };
+
+  // Tab- or pipe-separated cells (Markdown, HTML and DOCX tables)
+  if (/\t.*\t|\|.*\|/.test(trimmed) || /^\|?[\s:|-]+\|[\s:|-]*$/.test(trimmed)) {
+    return { kind: "table" };
+  }
+
+  const markdown = trimmed.match(MARKDOWN_HEADING);
+  if (markdown) {
+    return { kind: "heading", level: markdown[1].length, title: markdown[2].trim() };
+  }
+
+  const numbered = trimmed.match(NUMBERED);
+  if (numbered) {
+    const title = numbered[2].trim();
+    const level = numbered[1].replace(/[.)]$/, "").split(".").length;
+    // "3.1 Leave Encashment" and Title Case "1. Introduction" are headings;
+    // "27. Smoking inside office premises" is a list item
+    const heading =
+      title.length <= 80 &&
+      !/[.;,]$/.test(title) &&
+      (level > 1 || (title.length <= 40 && title.split(/\s+/).every((w) => !/^\p{Ll}/u.test(w) || STOP_WORDS.has(w))));
+    return heading ? { kind: "heading", level, title: trimmed } : { kind: "clause" };
+  }
+
+  if (BULLET.test(trimmed)) return { kind: "clause" };
+
+  const words = trimmed.split(/\s+/).length;
+
+  // "LEAVE POLICY" (but not a wrapped "AMC.")
+  if (
+    trimmed.length <= 60 &&
+    (trimmed.match(/\p{Lu}/gu)?.length ?? 0) >= 4 &&
+    !/\p{Ll}/u.test(trimmed) &&
+    !/\.$/.test(trimmed)
+  ) {
+    return { kind: "heading", level: 1, title: trimmed.replace(/:$/, ""), caps: true };
+  }
+
+  // "Leave during notice period:" (but not "Notice Period: Period of …"
+  // or a sentence lead-in like "This policy applies to:")
+  const lastWord = trimmed.slice(0, -1).split(/\s+/).pop()!.toLowerCase();
+  if (
+    trimmed.length <= 60 &&
+    words <= 6 &&
+    /^\p{Lu}/u.test(trimmed) &&
+    /:$/.test(trimmed) &&
+    !/:\s/.test(trimmed) &&
+    !STOP_WORDS.has(lastWord) &&
+    !LEAD_IN_WORDS.has(lastWord)
+  ) {
+    return { kind: "heading", level: lastHeadingLevel + 1, title: trimmed.slice(0, -1) };
+  }
+
+  return { kind: "text" };
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let lastHeadingLevel = 0;
+  let start = 0;
+
+  const rawLines = text.split("\n");
+  rawLines.forEach((raw, i) => {
+    const line = { start, end: start + raw.length, ...classify(raw, lastHeadingLevel) };
+
+    // "3. Insubordination or refusing to obey" + "instructions …" is a
+    // hard-wrapped list item, not a heading
+    if (line.kind === "heading" && NUMBERED.test(raw.trim()) && /^\p{Ll}/u.test(rawLines[i + 1]?.trim() ?? "")) {
+      line.kind = "clause";
+    }
+
+    // "Label:" headings nest one level under the last other heading
+    if (line.kind === "heading" && !raw.trim().endsWith(":")) {
+      lastHeadingLevel = line.level!;
+    }
+    lines.push(line);
+    start += raw.length + 1;
+  });
+  return lines;
+}
+
+// ── Structured chunking ────────────────────────────────────────────────────
+
+/**
+ * Groups lines into blocks. A heading starts a new section (and its line
+ * opens the section's first block); clauses and list items start a new
+ * block; consecutive table rows form one block.
+ */
+function buildBlocks(text: string, lines: Line[]): Block[] {
+  const blocks: Block[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let current: Block | undefined;
+  let previousHeading: Line | undefined;
+
+  const path = () => stack.map((h) => h.title).join(SECTION_SEPARATOR);
+  const open = (line: Line, table = false) => {
+    current = { start: line.start, end: line.end, table, path: path() };
+    blocks.push(current);
+  };
+
+  for (const line of lines) {
+    if (line.kind === "blank") {
+      current = undefined;
+      continue;
+    }
+
+    if (line.kind === "heading") {
+      // Caps headings broken over several lines ("ATTENDANCE," / "LEAVE POLICY")
+      if (previousHeading?.caps && line.caps && current) {
+        stack[stack.length - 1].title += ` ${line.title}`;
+        current.end = line.end;
+        current.path = path();
+        previousHeading = line;
+        continue;
+      }
+      while (stack.length > 0 && stack[stack.length - 1].level >= line.level!) stack.pop();
+      stack.push({ level: line.level!, title: line.title! });
+      open(line);
+      previousHeading = line;
+      continue;
+    }
+
+    // Punctuation-only lines inside a caps heading ("HOLIDAY" / "&" / "LEAVE")
+    if (previousHeading?.caps && current && !/[\p{L}\p{N}]/u.test(text.slice(line.start, line.end))) {
+      stack[stack.length - 1].title += ` ${text.slice(line.start, line.end).trim()}`;
+      current.end = line.end;
+      current.path = path();
+      continue;
+    }
+    previousHeading = undefined;
+
+    // Wrapped lines continue the current block (heading, clause or paragraph)
+    const table = line.kind === "table";
+    if (current && current.table === table && line.kind !== "clause") {
+      current.end = line.end;
+    } else {
+      open(line, table);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Cuts `[start, end)` into pieces of at most `size` characters, preferring
+ * row ends for tables and sentence ends for prose.
+ */
+function splitSpan(
+  text: string,
+  start: number,
+  end: number,
+  size: number,
+  table: boolean
+): [number, number][] {
+  const pieces: [number, number][] = [];
+  while (end - start > size) {
+    const window = text.slice(start, start + size);
+    const breaks = table
+      ? [...window.matchAll(/\n/g)]
+      : [...window.matchAll(/[.!?;:](?=\s)|\n/g)];
+    const last = breaks.length > 0 ? breaks[breaks.length - 1].index! + 1 : 0;
+    const cut =
+      last > size / 4 ? last : Math.max(window.lastIndexOf(" "), size / 2);
+    pieces.push([start, start + cut]);
+    start += cut;
+  }
+  pieces.push([start, end]);
+  return pieces;
+}
+
+/**
+ * Packs blocks into chunks of up to CHUNK_SIZE characters without crossing
+ * a section boundary (except that a heading with next to no text of its
+ * own is kept with the section after it). Tables stay whole up to MAX_TABLE_SIZE. Chunk texts
+ * are exact slices of `text`, so page lookup by position keeps working.
+ */
+function structuredChunks(text: string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let pending: { start: number; end: number; path: string } | undefined;
+
+  const flush = () => {
+    if (!pending) return;
+    const chunk = text.slice(pending.start, pending.end).trim();
+    if (chunk) chunks.push({ text: chunk, sectionPath: pending.path || undefined });
+    pending = undefined;
+  };
+
+  for (const block of buildBlocks(text, splitLines(text))) {
+    const limit = block.table ? MAX_TABLE_SIZE : CHUNK_SIZE;
+
+    for (const [start, end] of splitSpan(text, block.start, block.end, limit, block.table)) {
+      const fits = pending && end - pending.start <= Math.max(limit, CHUNK_SIZE);
+      if (fits && pending!.path === block.path) {
+        pending!.end = end;
+        continue;
+      }
+      // A bare heading or one-line intro joins what follows instead of standing alone
+      if (fits && text.slice(pending!.start, pending!.end).trim().length < MIN_CHUNK_SIZE) {
+        pending!.end = end;
+        pending!.path = block.path;
+        continue;
+      }
+      flush();
+      pending = { start, end, path: block.path };
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+// ── Entry points ───────────────────────────────────────────────────────────
+
+/** Splits a document's text into chunks with the given strategy. */
+export async function chunkText(
+  text: string,
+  strategy: ChunkingStrategy
+): Promise<DocumentChunk[]> {
+  if (strategy === "structured") return structuredChunks(text);
+
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: CHUNK_SIZE,
+    chunkOverlap: CHUNK_OVERLAP,
+  });
+  return (await splitter.splitText(text))
+    .filter((c) => c.trim().length > 0)
+    .map((c) => ({ text: c }));
+}
+
+/**
+ * The text that gets embedded for a chunk: its section path (when known)
+ * followed by the chunk, so "Up to 15 days can be encashed" carries the
+ * "Leave Policy > 3.1 Leave Encashment" context it was written under.
+ */
+export function embeddingText(chunk: { text: string; sectionPath?: string }): string {
+  return chunk.sectionPath ? `${chunk.sectionPath}\n\n${chunk.text}` : chunk.text;
+}
@@ -0,0 +1,124 @@
+import type { RetrieverName } from "./retrieval";
+import { splitSentences, tokenize } from "./text";
+
+// Longest snippet (in characters) returned for a citation
+const MAX_SNIPPET_LENGTH = 280;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** A retrieved chunk as it comes back from retrieval. */
+export interface CitationInput {
+  id: string;
+  score?: number;
+  retrievers?: RetrieverName[];
+  text: string;
+  source?: string;
+  chunkIndex?: number;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string;
+}
+
+/**
+ * One numbered citation. `marker` is the number the answer uses inline,
+ * e.g. `[2]` refers to the citation with `marker: 2`.
+ */
+export interface Citation {
+  marker: number;
+  id: string;
+  source: string;
+  chunkIndex?: number;
+  page?: number;
+  pageEnd?: number;
+  section?: string;
+  snippet: string;
+  score: number;
+  retrievers: RetrieverName[];
+  cited: boolean;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Picks the sentence of `text` that shares the most terms with `question`,
+ * trimmed to MAX_SNIPPET_LENGTH. Falls back to the start of the chunk.
+ */
+export function extractSnippet(text: string, question: string): string {
+  const wanted = new Set(tokenize(question));
+  const sentences = splitSentences(text);
+
+  let best = sentences[0] ?? "";
+  let bestScore = 0;
+  for (const sentence of sentences) {
+    const score = tokenize(sentence).filter((t) => wanted.has(t)).length;
+    if (score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  }
+
+  return best.length > MAX_SNIPPET_LENGTH
+    ? `${best.slice(0, MAX_SNIPPET_LENGTH - 1).trimEnd()}…`
+    : best;
+}
+
+/** Returns the set of `[n]` markers that appear in an answer. */
+export function citedMarkers(answer: string): Set<number> {
+  const markers = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const n of match[1].split(",")) markers.add(Number(n.trim()));
+  }
+  return markers;
+}
+
+/** Human-readable page label, e.g. "p. 3" or "pp. 3–4". */
+export function pageLabel(pageStart?: number, pageEnd?: number): string {
+  if (!pageStart) return "";
+  return pageEnd && pageEnd !== pageStart
+    ? `pp. ${pageStart}–${pageEnd}`
+    : `p. ${pageStart}`;
+}
+
+/**
+ * Builds the numbered context block sent to the LLM. Each chunk is labelled
+ * with the same marker the answer is asked to cite.
+ */
+export function buildNumberedContext(chunks: CitationInput[]): string {
+  return chunks
+    .map((c, i) => {
+      const where = [
+        c.source ?? "Unknown",
+        pageLabel(c.pageStart, c.pageEnd),
+        c.sectionPath && `§ ${c.sectionPath}`,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      return `[${i + 1}] (${where})\n${c.text}`;
+    })
+    .join("\n\n---\n\n");
+}
+
+/**
+ * Turns retrieved chunks into numbered citations. Markers follow the order
+ * of `chunks`, matching `buildNumberedContext`.
+ */
+export function buildCitations(
+  chunks: CitationInput[],
+  question: string,
+  answer: string
+): Citation[] {
+  const cited = citedMarkers(answer);
+  return chunks.map((c, i) => ({
+    marker: i + 1,
+    id: c.id,
+    source: c.source ?? "Unknown",
+    chunkIndex: c.chunkIndex,
+    page: c.pageStart,
+    pageEnd: c.pageEnd,
+    section: c.sectionPath,
+    snippet: extractSnippet(c.text, question),
+    score: c.score ?? 0,
+    retrievers: c.retrievers ?? [],
+    cited: cited.has(i + 1),
+  }));
+}
@@ -0,0 +1,441 @@
+import { CHUNKING_STRATEGIES, ChunkingStrategy } from "./chunking";
+import { ACCESS_LABEL_PATTERN } from "./documentMetadata";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type EmbeddingProviderName = "gemini" | "openai" | "fake";
+export type ChatProviderName = "gemini" | "openai" | "fake";
+export type RerankerName = "lexical" | "llm" | "none";
+export type GroundingCheckName = "lexical" | "llm" | "none";
+export type GroundingAction = "flag" | "strip";
+export type LanguageDetectionName = "local" | "llm" | "none";
+export type TracingExporter = "off" | "console" | "otlp";
+export type AuthProviderName = "none" | "local";
+
+export interface RagConfig {
+  embedding: {
+    provider: EmbeddingProviderName;
+    model: string;
+    dimension: number;
+  };
+  chat: {
+    provider: ChatProviderName;
+    model: string;
+  };
+  chunking: {
+    /** Default strategy; a document's `.meta.json` can override it. */
+    strategy: ChunkingStrategy;
+  };
+  rerank: {
+    reranker: RerankerName;
+    candidates: number;
+    minScore: number;
+  };
+  prompts: {
+    /** Prompt profile used when a query names none (prompts/<name>.json). */
+    defaultProfile: string;
+  };
+  grounding: {
+    /** How generated claims are checked against the retrieved chunks. */
+    check: GroundingCheckName;
+    /** What happens to unsupported claims: marked in the answer or removed. */
+    action: GroundingAction;
+    /** Claim score (0–1) below which a claim counts as unsupported. */
+    minScore: number;
+  };
+  language: {
+    /** Language tag of the documents, e.g. "en"; other questions are translated into it. */
+    corpus: string;
+    /** How a question's language is detected. */
+    detection: LanguageDetectionName;
+  };
+  cache: {
+    /** Reuse question embeddings and answers across queries. */
+    enabled: boolean;
+  };
+  telemetry: {
+    /** Print one JSON line per query (hash, retrieved chunks, timings, tokens). */
+    queryLog: boolean;
+  };
+  tracing: {
+    exporter: TracingExporter;
+    /** Base URL of an OTLP/HTTP receiver, e.g. http://localhost:4318. */
+    otlpEndpoint?: string;
+    serviceName: string;
+  };
+  auth: {
+    provider: AuthProviderName;
+    /** Signs session tokens (local provider). */
+    jwtSecret?: string;
+    sessionTtlSeconds: number;
+    /** Access labels of documents whose sidecar sets none. */
+    defaultAccess: string[];
+  };
+  watch: {
+    /** Ingest files added to, changed in or deleted from pdfs/ while running. */
+    enabled: boolean;
+    /** Quiet period after the last change before files are checked. */
+    debounceMs: number;
+  };
+  gemini: {
+    apiKey?: string;
+    baseUrl: string;
+    /** Texts per batchEmbedContents request (the API allows up to 100). */
+    embedBatchSize: number;
+    /** batchEmbedContents requests in flight at once. */
+    embedConcurrency: number;
+    /** Embedding requests per minute, shared by ingestion and queries. */
+    requestsPerMinute: number;
+    /** Retries for rate-limited (429) or failed (5xx) requests. */
+    maxRetries: number;
+  };
+  openai: {
+    apiKey?: string;
+    baseUrl?: string;
+  };
+}
+
+// Default model per provider when EMBEDDING_MODEL / CHAT_MODEL are unset
+const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderName, string> = {
+  gemini: "gemini-embedding-001",
+  openai: "text-embedding-3-small",
+  fake: "fake-hashed-bow",
+};
+
+const DEFAULT_CHAT_MODELS: Record<ChatProviderName, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  fake: "fake-template",
+};
+
+// Retrieved chunks handed to the reranker, and the score (0–1) a chunk needs to be kept
+const DEFAULT_RERANK_CANDIDATES = 12;
+const DEFAULT_RERANK_MIN_SCORE = 0.2;
+
+// Prompt profile (prompts/<name>.json) answering queries that don't pick one
+const DEFAULT_PROMPT_PROFILE = "friendly";
+
+// Claim score (0–1) below which a claim in an answer is treated as unsupported
+const DEFAULT_GROUNDING_MIN_SCORE = 0.4;
+
+// Language the documents in pdfs/ are written in
+const DEFAULT_CORPUS_LANGUAGE = "en";
+
+// How long a sign-in lasts (8 hours)
+const DEFAULT_SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+// Quiet period before the pdfs/ watcher acts on a burst of changes
+const DEFAULT_WATCH_DEBOUNCE_MS = 2000;
+
+// gemini-embedding-001 supports 1–3072 dims; 1024 matches common Pinecone setups
+const DEFAULT_EMBEDDING_DIMENSION = 1024;
+
+// Gemini embedding throughput: texts per batch request (API max 100),
+// parallel requests, the free-tier request rate, and retries per request
+const MAX_GEMINI_EMBED_BATCH_SIZE = 100;
+const DEFAULT_GEMINI_EMBED_BATCH_SIZE = 25;
+const DEFAULT_GEMINI_EMBED_CONCURRENCY = 4;
+const DEFAULT_GEMINI_REQUESTS_PER_MINUTE = 100;
+const DEFAULT_GEMINI_MAX_RETRIES = 5;
+
+function providerName<T extends string>(
+  value: string | undefined,
+  allowed: readonly T[],
+  fallback: T,
+  variable: string
+): T {
+  if (!value) return fallback;
+  if ((allowed as readonly string[]).includes(value)) return value as T;
+  throw new Error(`${variable} must be one of ${allowed.join(", ")} (got "${value}")`);
+}
+
+function integer(
+  value: string | undefined,
+  fallback: number,
+  min: number,
+  variable: string
+): number {
+  const parsed = Number(value || fallback);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${variable} must be an integer of at least ${min}`);
+  }
+  return parsed;
+}
+
+// ── Loader ─────────────────────────────────────────────────────────────────
+
+/**
+ * Reads model/provider configuration from the environment. Read on every
+ * call (it's cheap) so scripts can change env vars between runs.
+ *
+ *   EMBEDDING_PROVIDER   gemini | openai | fake        (default gemini)
+ *   EMBEDDING_MODEL      provider-specific model name
+ *   EMBEDDING_DIMENSION  vector size                    (default 1024)
+ *   CHAT_PROVIDER        gemini | openai | fake        (default gemini)
+ *   CHAT_MODEL           provider-specific model name
+ *   OPENAI_BASE_URL      e.g. http://localhost:11434/v1 for Ollama
+ *   OPENAI_API_KEY       optional for local servers
+ *   GEMINI_BASE_URL      override the Generative Language API endpoint
+ *   GEMINI_EMBED_BATCH_SIZE   texts per batch request, 1–100 (default 25)
+ *   GEMINI_EMBED_CONCURRENCY  batch requests in flight    (default 4)
+ *   GEMINI_REQUESTS_PER_MINUTE  embedding request budget  (default 100)
+ *   GEMINI_MAX_RETRIES   retries on 429 / 5xx          (default 5)
+ *   CHUNKING_STRATEGY    recursive | structured        (default recursive)
+ *   RERANKER             lexical | llm | none            (default lexical)
+ *   RERANK_CANDIDATES    chunks retrieved before reranking (default 12)
+ *   RERANK_MIN_SCORE     drop chunks scoring below this, 0–1 (default 0.2)
+ *   PROMPT_PROFILE       prompt profile for queries that name none (default friendly)
+ *   GROUNDING_CHECK      lexical | llm | none — verify answers against the chunks (default lexical)
+ *   GROUNDING_ACTION     flag | strip — what to do with unsupported claims (default flag)
+ *   GROUNDING_MIN_SCORE  claim score needed to count as supported, 0–1 (default 0.4)
+ *   CORPUS_LANGUAGE      language tag of the documents (default en)
+ *   LANGUAGE_DETECTION   local | llm | none — detect each question's language (default local)
+ *   QUERY_CACHE          true | false — cache question embeddings and answers (default true)
+ *   QUERY_LOG            true | false — structured per-query log lines (default true)
+ *   TRACING              off | console | otlp          (default off)
+ *   OTEL_EXPORTER_OTLP_ENDPOINT  OTLP/HTTP receiver, required for TRACING=otlp
+ *   OTEL_SERVICE_NAME    service name on exported spans (default emp-rag)
+ *   AUTH_PROVIDER        none | local                  (default none — no sign-in)
+ *   AUTH_JWT_SECRET      signs session tokens, required for AUTH_PROVIDER=local
+ *   AUTH_SESSION_TTL     session lifetime in seconds  (default 28800)
+ *   DEFAULT_ACCESS_LABELS  comma-separated labels for documents without any (default all-employees)
+ *   WATCH_DOCUMENTS      true | false — watch pdfs/ for changes (default true)
+ *   WATCH_DEBOUNCE_MS    quiet period before acting on changes (default 2000)
+ */
+export function getRagConfig(): RagConfig {
+  const providers = ["gemini", "openai", "fake"] as const;
+  const embeddingProvider = providerName(
+    process.env.EMBEDDING_PROVIDER,
+    providers,
+    "gemini",
+    "EMBEDDING_PROVIDER"
+  );
+  const chatProvider = providerName(
+    process.env.CHAT_PROVIDER,
+    providers,
+    "gemini",
+    "CHAT_PROVIDER"
+  );
+
+  const dimension = Number(
+    process.env.EMBEDDING_DIMENSION ?? DEFAULT_EMBEDDING_DIMENSION
+  );
+  if (!Number.isInteger(dimension) || dimension <= 0) {
+    throw new Error("EMBEDDING_DIMENSION must be a positive integer");
+  }
+
+  const chunkingStrategy = providerName(
+    process.env.CHUNKING_STRATEGY,
+    CHUNKING_STRATEGIES,
+    "recursive",
+    "CHUNKING_STRATEGY"
+  );
+
+  const reranker = providerName(
+    process.env.RERANKER,
+    ["lexical", "llm", "none"] as const,
+    "lexical",
+    "RERANKER"
+  );
+
+  const candidates = Number(
+    process.env.RERANK_CANDIDATES ?? DEFAULT_RERANK_CANDIDATES
+  );
+  if (!Number.isInteger(candidates) || candidates <= 0) {
+    throw new Error("RERANK_CANDIDATES must be a positive integer");
+  }
+
+  const minScore = Number(
+    process.env.RERANK_MIN_SCORE ?? DEFAULT_RERANK_MIN_SCORE
+  );
+  if (!Number.isFinite(minScore) || minScore < 0 || minScore > 1) {
+    throw new Error("RERANK_MIN_SCORE must be a number between 0 and 1");
+  }
+
+  const groundingCheck = providerName(
+    process.env.GROUNDING_CHECK,
+    ["lexical", "llm", "none"] as const,
+    "lexical",
+    "GROUNDING_CHECK"
+  );
+
+  const groundingAction = providerName(
+    process.env.GROUNDING_ACTION,
+    ["flag", "strip"] as const,
+    "flag",
+    "GROUNDING_ACTION"
+  );
+
+  const groundingMinScore = Number(
+    process.env.GROUNDING_MIN_SCORE ?? DEFAULT_GROUNDING_MIN_SCORE
+  );
+  if (!Number.isFinite(groundingMinScore) || groundingMinScore < 0 || groundingMinScore > 1) {
+    throw new Error("GROUNDING_MIN_SCORE must be a number between 0 and 1");
+  }
+
+  const corpusLanguage = process.env.CORPUS_LANGUAGE || DEFAULT_CORPUS_LANGUAGE;
+  if (!/^[a-z]{2,3}$/.test(corpusLanguage)) {
+    throw new Error(`CORPUS_LANGUAGE must be a language code such as "en" (got "${corpusLanguage}")`);
+  }
+
+  const languageDetection = providerName(
+    process.env.LANGUAGE_DETECTION,
+    ["local", "llm", "none"] as const,
+    "local",
+    "LANGUAGE_DETECTION"
+  );
+
+  const cacheEnabled = providerName(
+    process.env.QUERY_CACHE,
+    ["true", "false"] as const,
+    "true",
+    "QUERY_CACHE"
+  );
+
+  const queryLog = providerName(
+    process.env.QUERY_LOG,
+    ["true", "false"] as const,
+    "true",
+    "QUERY_LOG"
+  );
+
+  const tracingExporter = providerName(
+    process.env.TRACING,
+    ["off", "console", "otlp"] as const,
+    "off",
+    "TRACING"
+  );
+  const otlpEndpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT?.replace(/\/$/, "");
+  if (tracingExporter === "otlp" && !otlpEndpoint) {
+    throw new Error("OTEL_EXPORTER_OTLP_ENDPOINT is required when TRACING=otlp");
+  }
+
+  const authProvider = providerName(
+    process.env.AUTH_PROVIDER,
+    ["none", "local"] as const,
+    "none",
+    "AUTH_PROVIDER"
+  );
+  const defaultAccess = (process.env.DEFAULT_ACCESS_LABELS || "all-employees")
+    .split(",")
+    .map((label) => label.trim())
+    .filter(Boolean);
+  if (defaultAccess.length === 0 || !defaultAccess.every((l) => ACCESS_LABEL_PATTERN.test(l))) {
+    throw new Error(
+      "DEFAULT_ACCESS_LABELS must be comma-separated labels of lowercase letters, digits, - and _"
+    );
+  }
+
+  const watchEnabled = providerName(
+    process.env.WATCH_DOCUMENTS,
+    ["true", "false"] as const,
+    "true",
+    "WATCH_DOCUMENTS"
+  );
+
+  const debounceMs = Number(
+    process.env.WATCH_DEBOUNCE_MS ?? DEFAULT_WATCH_DEBOUNCE_MS
+  );
+  if (!Number.isInteger(debounceMs) || debounceMs < 0) {
+    throw new Error("WATCH_DEBOUNCE_MS must be a non-negative integer");
+  }
+
+  const embedBatchSize = integer(
+    process.env.GEMINI_EMBED_BATCH_SIZE,
+    DEFAULT_GEMINI_EMBED_BATCH_SIZE,
+    1,
+    "GEMINI_EMBED_BATCH_SIZE"
+  );
+  if (embedBatchSize > MAX_GEMINI_EMBED_BATCH_SIZE) {
+    throw new Error(
+      `GEMINI_EMBED_BATCH_SIZE must be at most ${MAX_GEMINI_EMBED_BATCH_SIZE}`
+    );
+  }
+
+  return {
+    embedding: {
+      provider: embeddingProvider,
+      model: process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[embeddingProvider],
+      dimension,
+    },
+    chat: {
+      provider: chatProvider,
+      model: process.env.CHAT_MODEL || DEFAULT_CHAT_MODELS[chatProvider],
+    },
+    chunking: { strategy: chunkingStrategy },
+    rerank: { reranker, candidates, minScore },
+    prompts: { defaultProfile: process.env.PROMPT_PROFILE || DEFAULT_PROMPT_PROFILE },
+    grounding: {
+      check: groundingCheck,
+      action: groundingAction,
+      minScore: groundingMinScore,
+    },
+    language: { corpus: corpusLanguage, detection: languageDetection },
+    cache: { enabled: cacheEnabled === "true" },
+    telemetry: { queryLog: queryLog === "true" },
+    tracing: {
+      exporter: tracingExporter,
+      otlpEndpoint,
+      serviceName: process.env.OTEL_SERVICE_NAME || "emp-rag",
+    },
+    auth: {
+      provider: authProvider,
+      jwtSecret: process.env.AUTH_JWT_SECRET,
+      sessionTtlSeconds: integer(
+        process.env.AUTH_SESSION_TTL,
+        DEFAULT_SESSION_TTL_SECONDS,
+        60,
+        "AUTH_SESSION_TTL"
+      ),
+      defaultAccess,
+    },
+    watch: { enabled: watchEnabled === "true", debounceMs },
+    gemini: {
+      apiKey: process.env.GOOGLE_API_KEY,
+      baseUrl:
+        process.env.GEMINI_BASE_URL ||
+        "https://generativelanguage.googleapis.com/v1beta",
+      embedBatchSize,
+      embedConcurrency: integer(
+        process.env.GEMINI_EMBED_CONCURRENCY,
+        DEFAULT_GEMINI_EMBED_CONCURRENCY,
+        1,
+        "GEMINI_EMBED_CONCURRENCY"
+      ),
+      requestsPerMinute: integer(
+        process.env.GEMINI_REQUESTS_PER_MINUTE,
+        DEFAULT_GEMINI_REQUESTS_PER_MINUTE,
+        1,
+        "GEMINI_REQUESTS_PER_MINUTE"
+      ),
+      maxRetries: integer(
+        process.env.GEMINI_MAX_RETRIES,
+        DEFAULT_GEMINI_MAX_RETRIES,
+        0,
+        "GEMINI_MAX_RETRIES"
+      ),
+    },
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY,
+      baseUrl: process.env.OPENAI_BASE_URL,
+    },
+  };
+}
+
+/** Throws unless the credentials the selected providers need are set. */
+export function assertProvidersConfigured(
+  which: "embedding" | "chat" | "both" = "both"
+): void {
+  const config = getRagConfig();
+  const selected = [
+    which !== "chat" ? config.embedding.provider : undefined,
+    which !== "embedding" ? config.chat.provider : undefined,
+  ];
+
+  if (selected.includes("gemini") && !config.gemini.apiKey) {
+    throw new Error("GOOGLE_API_KEY is not configured");
+  }
+  if (selected.includes("openai") && !config.openai.baseUrl) {
+    throw new Error("OPENAI_BASE_URL is not configured");
+  }
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from "crypto";
+import type { ChatProvider } from "./chat";
+
+// Conversations idle for longer than this are forgotten
+const CONVERSATION_TTL_MS = 60 * 60 * 1000;
+
+// Upper bound on conversations kept in memory (oldest evicted first)
+const MAX_CONVERSATIONS = 500;
+
+// Turns stored per conversation (older turns are dropped)
+const MAX_STORED_TURNS = 20;
+
+// Turns included in the rewrite + answer prompts
+const MAX_PROMPT_TURNS = 6;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface Turn {
+  role: "user" | "assistant";
+  content: string;
+  at: string;
+}
+
+export interface Conversation {
+  id: string;
+  /** User who started it; nobody else can continue it. */
+  owner: string;
+  createdAt: string;
+  updatedAt: number;
+  turns: Turn[];
+}
+
+// ── Store ──────────────────────────────────────────────────────────────────
+
+// Kept on globalThis so dev-mode hot reloads don't wipe active conversations
+const store = globalThis as unknown as {
+  __ragConversations?: Map<string, Conversation>;
+};
+const conversations = (store.__ragConversations ??= new Map());
+
+function pruneExpired(now: number): void {
+  for (const [id, convo] of conversations) {
+    if (now - convo.updatedAt > CONVERSATION_TTL_MS) conversations.delete(id);
+  }
+  // Map iterates in insertion order, so the first keys are the oldest
+  while (conversations.size > MAX_CONVERSATIONS) {
+    conversations.delete(conversations.keys().next().value!);
+  }
+}
+
+/**
+ * Returns `owner`'s conversation with `id`, or starts a new one when `id`
+ * is missing, unknown (e.g. it expired or the server restarted) or belongs
+ * to someone else — its turns may quote documents `owner` can't read.
+ */
+export function getOrCreateConversation(id: string | undefined, owner: string): Conversation {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const existing = id ? conversations.get(id) : undefined;
+  if (existing?.owner === owner) return existing;
+
+  const convo: Conversation = {
+    id: randomUUID(),
+    owner,
+    createdAt: new Date(now).toISOString(),
+    updatedAt: now,
+    turns: [],
+  };
+  conversations.set(convo.id, convo);
+  return convo;
+}
+
+/** Records a question/answer exchange on a conversation. */
+export function appendExchange(
+  convo: Conversation,
+  question: string,
+  answer: string
+): void {
+  const at = new Date().toISOString();
+  convo.turns.push(
+    { role: "user", content: question, at },
+    { role: "assistant", content: answer, at }
+  );
+  convo.turns = convo.turns.slice(-MAX_STORED_TURNS);
+  convo.updatedAt = Date.now();
+
+  // Re-insert so the Map's insertion order tracks recency
+  conversations.delete(convo.id);
+  conversations.set(convo.id, convo);
+}
+
+/** Formats the most recent turns as a plain-text transcript for prompts. */
+export function formatHistory(turns: Turn[]): string {
+  return turns
+    .slice(-MAX_PROMPT_TURNS)
+    .map((t) => `${t.role === "user" ? "User" : "Assistant"}: ${t.content}`)
+    .join("\n");
+}
+
+/**
+ * Rewrites a follow-up question into a standalone search query using the
+ * conversation so far, e.g. "and what about interns?" →
+ * "What is the leave policy for interns?". The first question of a
+ * conversation is returned unchanged without calling the LLM.
+ */
+export async function condenseQuestion(
+  llm: ChatProvider,
+  turns: Turn[],
+  question: string
+): Promise<string> {
+  if (turns.length === 0) return question;
+
+  const prompt = `Rewrite the follow-up question so it can be understood without the conversation. \
+Resolve pronouns and references like "that", "them" or "what about …" using the conversation. \
+Keep the user's wording and language where possible. If it is already standalone, return it unchanged. \
+Reply with the rewritten question only.
+
+Conversation:
+${formatHistory(turns)}
+
+Follow-up question: ${question}
+
+Standalone question:`;
+
+  const { text } = await llm.generate(prompt, { temperature: 0 });
+  const rewritten = text.trim().replace(/^"|"$/g, "");
+  return rewritten || question;
+}
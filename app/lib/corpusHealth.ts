@@ -0,0 +1,198 @@
+import fs from "fs";
+import path from "path";
+import { getRagConfig } from "./config";
+import { isSupportedDocument } from "./documentLoaders";
+import { getIngestedFiles, IngestedFile, PDFS_DIR, staleReason } from "./ingestDocuments";
+import { IngestJob, latestJobFor } from "./ingestQueue";
+import { KeywordIndex } from "./keywordIndex";
+import { getVectorStore, VectorRecord, VectorStore } from "./vectorStore";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** Ways pdfs/, the .ingested.json tracker and the indexes can disagree. */
+export type DriftKind =
+  | "not_ingested"
+  | "stale"
+  | "ingest_failed"
+  | "file_missing"
+  | "vector_count"
+  | "dimension"
+  | "keyword_count"
+  | "untracked_vectors";
+
+export interface DriftIssue {
+  kind: DriftKind;
+  message: string;
+}
+
+/** A chunk as it is stored in the vector store (without its vector). */
+export interface StoredChunk {
+  id: string;
+  chunkIndex: number;
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string;
+  ingestedAt: string;
+  access?: string[];
+}
+
+export interface DocumentHealth {
+  filename: string;
+  onDisk: boolean;
+  /** The tracker entry: ingest time, chunk count, model, dimension, … */
+  record?: IngestedFile;
+  /** Vectors actually present in the store for this document. */
+  vectorCount: number;
+  /** Distinct lengths of those vectors (one, unless the index is mixed). */
+  dimensions: number[];
+  keywordCount: number;
+  job?: IngestJob;
+  issues: DriftIssue[];
+}
+
+export interface CorpusHealth {
+  backend: string;
+  /** What new chunks are embedded with. */
+  embedding: { model: string; dimension: number };
+  store: { dimension?: number; totalVectors: number };
+  documents: DocumentHealth[];
+  /** Index-wide problems, e.g. vectors no known document accounts for. */
+  issues: DriftIssue[];
+}
+
+// ── Checks ─────────────────────────────────────────────────────────────────
+
+// Compares one document's file, tracker entry, vectors and keyword entries
+function checkDocument(
+  filename: string,
+  record: IngestedFile | undefined,
+  vectors: VectorRecord[]
+): DocumentHealth {
+  const onDisk = fs.existsSync(path.join(PDFS_DIR, filename));
+  const dimensions = [...new Set(vectors.map((v) => v.values.length))].sort((a, b) => a - b);
+  const keywordCount = KeywordIndex.open().countSource(filename);
+  const job = latestJobFor(filename);
+  const issues: DriftIssue[] = [];
+
+  if (job?.state === "failed") {
+    issues.push({ kind: "ingest_failed", message: `Last ${job.kind} job failed: ${job.error}` });
+  }
+
+  if (!record) {
+    if (onDisk) issues.push({ kind: "not_ingested", message: "On disk but not in the tracker" });
+    if (vectors.length > 0) {
+      issues.push({
+        kind: "vector_count",
+        message: `${vectors.length} vector(s) stored for an untracked document`,
+      });
+    }
+    return { filename, onDisk, vectorCount: vectors.length, dimensions, keywordCount, job, issues };
+  }
+
+  if (!onDisk) {
+    issues.push({ kind: "file_missing", message: "Tracked but no longer in pdfs/" });
+  } else {
+    const reason = staleReason(filename, record);
+    if (reason) issues.push({ kind: "stale", message: `Needs re-ingesting: ${reason}` });
+  }
+  if (vectors.length !== record.chunkCount) {
+    issues.push({
+      kind: "vector_count",
+      message: `Tracker has ${record.chunkCount} chunk(s), the store ${vectors.length} vector(s)`,
+    });
+  }
+  const wrongDimension = dimensions.filter((d) => d !== record.dimension);
+  if (record.dimension !== undefined && wrongDimension.length > 0) {
+    issues.push({
+      kind: "dimension",
+      message: `Vectors of ${wrongDimension.join(", ")} dimensions; the tracker says ${record.dimension}`,
+    });
+  }
+  if (keywordCount !== record.chunkCount) {
+    issues.push({
+      kind: "keyword_count",
+      message: `Keyword index has ${keywordCount} chunk(s), the tracker ${record.chunkCount}`,
+    });
+  }
+
+  return { filename, onDisk, record, vectorCount: vectors.length, dimensions, keywordCount, job, issues };
+}
+
+function toStoredChunk({ id, metadata }: VectorRecord): StoredChunk {
+  return {
+    id,
+    chunkIndex: metadata.chunkIndex,
+    text: metadata.text,
+    pageStart: metadata.pageStart,
+    pageEnd: metadata.pageEnd,
+    sectionPath: metadata.sectionPath,
+    ingestedAt: metadata.ingestedAt,
+    access: Array.isArray(metadata.access) ? metadata.access : undefined,
+  };
+}
+
+/**
+ * One document's health plus every chunk stored for it, in document order.
+ * Returns undefined if the document is neither in pdfs/ nor tracked.
+ */
+export async function inspectDocument(
+  filename: string,
+  store?: VectorStore
+): Promise<{ health: DocumentHealth; chunks: StoredChunk[] } | undefined> {
+  const record = getIngestedFiles().find((f) => f.filename === filename);
+  if (!record && !fs.existsSync(path.join(PDFS_DIR, filename))) return undefined;
+
+  const vectors = await (store ?? (await getVectorStore())).listBySource(filename);
+  return {
+    health: checkDocument(filename, record, vectors),
+    chunks: vectors.map(toStoredChunk).sort((a, b) => a.chunkIndex - b.chunkIndex),
+  };
+}
+
+/**
+ * Checks every document in pdfs/ or the tracker against the vector store
+ * and keyword index. Lists each document's vectors, so on Pinecone this
+ * costs a list and a fetch per document.
+ */
+export async function inspectCorpus(): Promise<CorpusHealth> {
+  const store = await getVectorStore();
+  const tracked = getIngestedFiles();
+  const onDisk = fs.existsSync(PDFS_DIR)
+    ? fs.readdirSync(PDFS_DIR).filter(isSupportedDocument)
+    : [];
+  const names = [...new Set([...onDisk, ...tracked.map((f) => f.filename)])].sort();
+
+  const documents: DocumentHealth[] = [];
+  for (const filename of names) {
+    const vectors = await store.listBySource(filename);
+    documents.push(
+      checkDocument(filename, tracked.find((f) => f.filename === filename), vectors)
+    );
+  }
+
+  const stats = await store.stats();
+  const { embedding } = getRagConfig();
+  const issues: DriftIssue[] = [];
+  const accounted = documents.reduce((sum, d) => sum + d.vectorCount, 0);
+  if (stats.totalVectors > accounted) {
+    issues.push({
+      kind: "untracked_vectors",
+      message: `${stats.totalVectors - accounted} vector(s) belong to no document in pdfs/ or the tracker`,
+    });
+  }
+  if (stats.dimension !== undefined && stats.dimension !== embedding.dimension) {
+    issues.push({
+      kind: "dimension",
+      message: `The index holds ${stats.dimension}-dimension vectors; EMBEDDING_DIMENSION is ${embedding.dimension}`,
+    });
+  }
+
+  return {
+    backend: stats.backend,
+    embedding: { model: embedding.model, dimension: embedding.dimension },
+    store: { dimension: stats.dimension, totalVectors: stats.totalVectors },
+    documents,
+    issues,
+  };
+}
@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import { NextRequest } from "next/server";
+import { isSupportedDocument, loaderFor, SUPPORTED_EXTENSIONS } from "./documentLoaders";
+import { DocumentMeta, parseDocumentMeta } from "./documentMetadata";
+import { PDFS_DIR } from "./ingestDocuments";
+
+// Optional multipart fields that set the document's metadata sidecar
+const META_FORM_FIELDS = ["category", "department", "version", "effectiveDate", "chunking", "access"];
+
+// Matches the 10mb body limit in next.config.ts
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * True for a plain file name that stays inside pdfs/ and has a supported
+ * extension (`.pdf`, `.docx`, `.md`, `.html`, `.txt`, …).
+ */
+export function isValidDocumentName(name: string): boolean {
+  return name.length > 0 && name === path.basename(name) && isSupportedDocument(name);
+}
+
+/**
+ * Reads the `file` field of a multipart request and checks that it is a
+ * supported document within the size limit whose contents match its
+ * extension. Optional `category`, `department`, `version`, `effectiveDate`,
+ * `chunking` and `access` (comma-separated labels) fields become `meta`,
+ * which is undefined when none were sent. Returns either the upload or an error message.
+ */
+export async function readDocumentUpload(
+  req: NextRequest
+): Promise<{ name: string; data: Buffer; meta?: DocumentMeta } | { error: string }> {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return { error: "Expected a multipart/form-data body" };
+  }
+
+  const file = form.get("file");
+  if (!file || typeof file === "string") {
+    return { error: 'A document must be sent in the "file" field' };
+  }
+  if (file.size === 0) {
+    return { error: "Uploaded file is empty" };
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { error: "File is too large (max 10MB)" };
+  }
+
+  const loader = loaderFor(file.name);
+  if (!loader) {
+    return {
+      error: `Unsupported file type — expected one of ${SUPPORTED_EXTENSIONS.join(", ")}`,
+    };
+  }
+
+  const data = Buffer.from(await file.arrayBuffer());
+  if (!loader.accepts(data)) {
+    return { error: `Uploaded file is not a valid ${loader.format} file` };
+  }
+
+  const sent = META_FORM_FIELDS.filter((f) => form.has(f));
+  if (sent.length === 0) return { name: file.name, data };
+
+  const parsed = parseDocumentMeta(
+    Object.fromEntries(sent.map((f) => [f, form.get(f)]))
+  );
+  if ("error" in parsed) return { error: parsed.error };
+  return { name: file.name, data, meta: parsed.meta };
+}
+
+/**
+ * Writes a document into pdfs/ via a temp file + rename, so a half-written
+ * file is never visible under its final name.
+ */
+export function writeDocument(name: string, data: Buffer): void {
+  fs.mkdirSync(PDFS_DIR, { recursive: true });
+  const tmpPath = path.join(PDFS_DIR, `.${name}.${process.pid}.upload`);
+  fs.writeFileSync(tmpPath, data);
+  fs.renameSync(tmpPath, path.join(PDFS_DIR, name));
+}
@@ -0,0 +1,122 @@
+import path from "path";
+import { docxLoader } from "./docxLoader";
+import { htmlLoader } from "./htmlLoader";
+import { decodeUtf8 } from "./text";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** Text of one page (or, for formats without pages, the whole document). */
+export interface DocumentPage {
+  num: number;
+  text: string;
+}
+
+export interface LoadedDocument {
+  pages: DocumentPage[];
+  /**
+   * Whether `pages` are real pages that citations can point to. Markdown,
+   * HTML and plain text come back as a single unpaginated page.
+   */
+  paginated: boolean;
+}
+
+/**
+ * Turns the raw bytes of one file format into page-aware text. Headings,
+ * list items and tables are written the way Markdown writes them
+ * (`## Title`, `- item`, `| a | b |`) so structured chunking sees the same
+ * layout whatever the source format.
+ */
+export interface DocumentLoader {
+  /** Format name used in messages, e.g. "PDF". */
+  readonly format: string;
+  /** Content-Type used when the file is served back to the browser. */
+  readonly contentType: string;
+  /** Cheap check on the raw bytes, run before an upload is accepted. */
+  accepts(data: Buffer): boolean;
+  load(data: Buffer): Promise<LoadedDocument>;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+// Text formats: valid UTF-8 without NUL bytes (which only binary files have)
+function isText(data: Buffer): boolean {
+  if (data.includes(0)) return false;
+  try {
+    decodeUtf8(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ── Loaders ────────────────────────────────────────────────────────────────
+
+interface PdfParser {
+  getText(): Promise<{ pages: DocumentPage[]; total: number }>;
+}
+
+const pdfLoader: DocumentLoader = {
+  format: "PDF",
+  contentType: "application/pdf",
+  accepts: (data) => data.subarray(0, 5).toString("latin1") === "%PDF-",
+  async load(data) {
+    // Loaded lazily: pdf-parse pulls in pdfjs, which only the PDF path needs
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { PDFParse } = require("pdf-parse") as {
+      PDFParse: new (opts: { data: Uint8Array }) => PdfParser;
+    };
+    const { pages } = await new PDFParse({ data: new Uint8Array(data) }).getText();
+    return { pages, paginated: true };
+  },
+};
+
+const markdownLoader: DocumentLoader = {
+  format: "Markdown",
+  contentType: "text/markdown; charset=utf-8",
+  accepts: isText,
+  async load(data) {
+    // YAML front matter is publishing metadata, not content
+    const text = decodeUtf8(data).replace(/^---\n[\s\S]*?\n---\n/, "");
+    return { pages: [{ num: 1, text }], paginated: false };
+  },
+};
+
+const textLoader: DocumentLoader = {
+  format: "plain text",
+  contentType: "text/plain; charset=utf-8",
+  accepts: isText,
+  async load(data) {
+    // Form feeds separate pages in text exported from paginated sources
+    const parts = decodeUtf8(data).split("\f");
+    return {
+      pages: parts.map((text, i) => ({ num: i + 1, text })),
+      paginated: parts.length > 1,
+    };
+  },
+};
+
+// ── Registry ───────────────────────────────────────────────────────────────
+
+// Loaders by lower-case file extension
+const LOADERS: Record<string, DocumentLoader> = {
+  ".pdf": pdfLoader,
+  ".docx": docxLoader,
+  ".md": markdownLoader,
+  ".markdown": markdownLoader,
+  ".html": htmlLoader,
+  ".htm": htmlLoader,
+  ".txt": textLoader,
+};
+
+/** File extensions that can be ingested, e.g. `[".pdf", ".docx", …]`. */
+export const SUPPORTED_EXTENSIONS = Object.keys(LOADERS);
+
+/** The loader for a file name's extension, or undefined if unsupported. */
+export function loaderFor(filename: string): DocumentLoader | undefined {
+  return LOADERS[path.extname(filename).toLowerCase()];
+}
+
+/** True for a visible file whose extension has a loader. */
+export function isSupportedDocument(filename: string): boolean {
+  return !filename.startsWith(".") && loaderFor(filename) !== undefined;
+}
@@ -0,0 +1,258 @@
+import fs from "fs";
+import { CHUNKING_STRATEGIES, ChunkingStrategy } from "./chunking";
+import type { MetadataFilter, MetadataValue } from "./vectorStore";
+
+// Longest accepted value for a free-text metadata field
+const MAX_FIELD_LENGTH = 100;
+
+// Most documents a single query can be scoped to
+const MAX_FILTER_VALUES = 50;
+
+// Most access labels one document can carry
+const MAX_ACCESS_LABELS = 20;
+
+/** Shape of an access label, e.g. `all-employees`, `managers`, `hr-only`. */
+export const ACCESS_LABEL_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * Descriptive metadata for one document, e.g.
+ * `{ category: "HR", department: "People Ops", version: "2.1", effectiveDate: "2024-04-01" }`.
+ * Stored in a sidecar file next to the document and copied onto every chunk.
+ */
+export interface DocumentMeta {
+  category?: string;
+  department?: string;
+  version?: string;
+  /** ISO date (YYYY-MM-DD) from which the document applies. */
+  effectiveDate?: string;
+  /** Overrides CHUNKING_STRATEGY for this document. */
+  chunking?: ChunkingStrategy;
+  /**
+   * Who may read the document: users holding any of these labels as a role
+   * (DEFAULT_ACCESS_LABELS when unset). See app/lib/auth.ts.
+   */
+  access?: string[];
+}
+
+/** Filters accepted by POST /api/query. All given conditions must match. */
+export interface QueryFilters {
+  sources?: string[];
+  categories?: string[];
+  departments?: string[];
+  /** Only documents effective on or after this ISO date. */
+  effectiveFrom?: string;
+  /** Only documents effective on or before this ISO date. */
+  effectiveTo?: string;
+}
+
+const META_FIELDS = [
+  "category",
+  "department",
+  "version",
+  "effectiveDate",
+  "chunking",
+  "access",
+] as const;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+// Midnight UTC of a YYYY-MM-DD date, or undefined if it isn't a real date
+function parseIsoDate(value: string): number | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value
+    ? undefined
+    : time;
+}
+
+function stringList(
+  value: unknown,
+  field: string
+): { list?: string[] } | { error: string } {
+  if (value === undefined) return {};
+  if (
+    !Array.isArray(value) ||
+    value.length > MAX_FILTER_VALUES ||
+    !value.every((v) => typeof v === "string" && v.trim())
+  ) {
+    return {
+      error: `filters.${field} must be an array of up to ${MAX_FILTER_VALUES} non-empty strings`,
+    };
+  }
+  return value.length > 0 ? { list: value.map((v: string) => v.trim()) } : {};
+}
+
+// Access labels from a JSON array or a comma-separated form field
+function accessLabels(value: unknown): { labels?: string[] } | { error: string } {
+  const list =
+    typeof value === "string"
+      ? value.split(",").map((l) => l.trim()).filter(Boolean)
+      : value;
+  if (
+    !Array.isArray(list) ||
+    list.length > MAX_ACCESS_LABELS ||
+    !list.every((l) => typeof l === "string" && ACCESS_LABEL_PATTERN.test(l))
+  ) {
+    return {
+      error: `access must list up to ${MAX_ACCESS_LABELS} labels of lowercase letters, digits, - and _`,
+    };
+  }
+  return list.length > 0 ? { labels: [...new Set(list as string[])] } : {};
+}
+
+// ── Sidecar files ──────────────────────────────────────────────────────────
+
+/** Path of the metadata sidecar for a document: `<file>.meta.json`. */
+export function sidecarPath(documentPath: string): string {
+  return `${documentPath}.meta.json`;
+}
+
+/**
+ * Validates raw metadata (from a sidecar or an upload form). Unknown keys
+ * are rejected so typos don't silently go missing; empty values are
+ * dropped. Keys come back in a fixed order so results compare as JSON.
+ */
+export function parseDocumentMeta(
+  input: unknown
+): { meta: DocumentMeta } | { error: string } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: "Document metadata must be a JSON object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const unknown = Object.keys(raw).filter(
+    (k) => !(META_FIELDS as readonly string[]).includes(k)
+  );
+  if (unknown.length > 0) {
+    return {
+      error: `Unknown metadata field(s): ${unknown.join(", ")} (allowed: ${META_FIELDS.join(", ")})`,
+    };
+  }
+
+  const meta: DocumentMeta = {};
+  for (const field of META_FIELDS) {
+    const value = raw[field];
+    if (value === undefined || value === null || value === "") continue;
+    if (field === "access") {
+      const parsed = accessLabels(value);
+      if ("error" in parsed) return parsed;
+      if (parsed.labels) meta.access = parsed.labels;
+      continue;
+    }
+    if (typeof value !== "string" || value.trim().length > MAX_FIELD_LENGTH) {
+      return { error: `${field} must be a string of at most ${MAX_FIELD_LENGTH} characters` };
+    }
+    (meta as Record<string, string>)[field] = value.trim();
+  }
+
+  if (meta.effectiveDate && parseIsoDate(meta.effectiveDate) === undefined) {
+    return { error: "effectiveDate must be a valid date in YYYY-MM-DD format" };
+  }
+  if (meta.chunking && !CHUNKING_STRATEGIES.includes(meta.chunking)) {
+    return { error: `chunking must be one of ${CHUNKING_STRATEGIES.join(", ")}` };
+  }
+  return { meta };
+}
+
+/**
+ * Reads a document's metadata sidecar. Returns `{}` when there is none and
+ * throws if it exists but is invalid, so ingestion fails visibly.
+ */
+export function readDocumentMeta(documentPath: string): DocumentMeta {
+  const file = sidecarPath(documentPath);
+  if (!fs.existsSync(file)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    throw new Error(`${file} is not valid JSON`);
+  }
+
+  const parsed = parseDocumentMeta(raw);
+  if ("error" in parsed) throw new Error(`${file}: ${parsed.error}`);
+  return parsed.meta;
+}
+
+/** Writes (or, for empty metadata, removes) a document's metadata sidecar. */
+export function writeDocumentMeta(documentPath: string, meta: DocumentMeta): void {
+  const file = sidecarPath(documentPath);
+  if (Object.keys(meta).length === 0) {
+    fs.rmSync(file, { force: true });
+    return;
+  }
+  fs.writeFileSync(file, JSON.stringify(meta, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Chunk metadata fields for a document. `effectiveAt` (ms since epoch)
+ * mirrors `effectiveDate` because Pinecone only range-filters numbers.
+ */
+export function chunkMetadataFor(meta: DocumentMeta): Record<string, MetadataValue> {
+  const fields: Record<string, MetadataValue> = {};
+  for (const field of META_FIELDS) {
+    if (meta[field] !== undefined) fields[field] = meta[field];
+  }
+  if (meta.effectiveDate) fields.effectiveAt = parseIsoDate(meta.effectiveDate)!;
+  return fields;
+}
+
+// ── Query filters ──────────────────────────────────────────────────────────
+
+/** Validates the `filters` object of a query request. */
+export function parseQueryFilters(
+  input: unknown
+): { filters?: QueryFilters } | { error: string } {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "filters must be an object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: QueryFilters = {};
+
+  for (const key of ["sources", "categories", "departments"] as const) {
+    const parsed = stringList(raw[key], key);
+    if ("error" in parsed) return parsed;
+    if (parsed.list) filters[key] = parsed.list;
+  }
+
+  for (const key of ["effectiveFrom", "effectiveTo"] as const) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || parseIsoDate(value) === undefined) {
+      return { error: `filters.${key} must be a date in YYYY-MM-DD format` };
+    }
+    filters[key] = value;
+  }
+
+  return Object.keys(filters).length > 0 ? { filters } : {};
+}
+
+/**
+ * Translates query filters into a vector-store metadata filter. Documents
+ * without an effective date are excluded by the date bounds.
+ */
+export function buildMetadataFilter(
+  filters?: QueryFilters
+): MetadataFilter | undefined {
+  if (!filters) return undefined;
+
+  const filter: MetadataFilter = {};
+  if (filters.sources) filter.source = { $in: filters.sources };
+  if (filters.categories) filter.category = { $in: filters.categories };
+  if (filters.departments) filter.department = { $in: filters.departments };
+
+  const from = filters.effectiveFrom ? parseIsoDate(filters.effectiveFrom) : undefined;
+  const to = filters.effectiveTo ? parseIsoDate(filters.effectiveTo) : undefined;
+  if (from !== undefined || to !== undefined) {
+    filter.effectiveAt = {
+      ...(from !== undefined ? { $gte: from } : {}),
+      ...(to !== undefined ? { $lte: to } : {}),
+    };
+  }
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import { getRagConfig } from "./config";
+import { isSupportedDocument } from "./documentLoaders";
+import { sidecarPath } from "./documentMetadata";
+import {
+  assertIngestConfigured,
+  ingestAllDocuments,
+  PDFS_DIR,
+  syncDocuments,
+} from "./ingestDocuments";
+import { latestJobFor } from "./ingestQueue";
+
+// Metadata sidecars sit next to their document: `<file>.meta.json`
+const SIDECAR_SUFFIX = sidecarPath("");
+
+// ── State ──────────────────────────────────────────────────────────────────
+
+interface WatcherState {
+  watcher?: fs.FSWatcher;
+  timer?: NodeJS.Timeout;
+  /**
+   * Documents seen changing, with the size + mtime observed when they were
+   * last checked (undefined until the first check).
+   */
+  pending: Map<string, string | undefined>;
+  /** Set when the OS reports a change without a file name. */
+  rescan: boolean;
+}
+
+// Kept on globalThis so dev-mode hot reloads don't start a second watcher
+const store = globalThis as unknown as { __ragDocumentWatcher?: WatcherState };
+const state: WatcherState = (store.__ragDocumentWatcher ??= {
+  pending: new Map(),
+  rescan: false,
+});
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+// Size + mtime of a file in pdfs/, or "missing" if it doesn't exist
+function fingerprint(name: string): string {
+  try {
+    const stats = fs.statSync(path.join(PDFS_DIR, name));
+    return `${stats.size}:${stats.mtimeMs}`;
+  } catch {
+    return "missing";
+  }
+}
+
+function schedule(): void {
+  clearTimeout(state.timer);
+  state.timer = setTimeout(flush, getRagConfig().watch.debounceMs);
+}
+
+function onChange(filename: string | null): void {
+  if (!filename) {
+    state.rescan = true;
+    schedule();
+    return;
+  }
+
+  // A sidecar edit re-ingests its document
+  const name = filename.endsWith(SIDECAR_SUFFIX)
+    ? filename.slice(0, -SIDECAR_SUFFIX.length)
+    : filename;
+
+  // Skips the tracker, temp upload files and unsupported types
+  if (!isSupportedDocument(name)) return;
+
+  if (!state.pending.has(name)) state.pending.set(name, undefined);
+  schedule();
+}
+
+/**
+ * Runs once changes have been quiet for WATCH_DEBOUNCE_MS. A file is only
+ * synced when its size and mtime match the previous check, so a file that
+ * is still being copied waits for another quiet period. Files with an
+ * ingest job already queued or running are re-checked after it finishes.
+ */
+function flush(): void {
+  state.timer = undefined;
+
+  if (state.rescan) {
+    state.rescan = false;
+    state.pending.clear();
+    ingestAllDocuments();
+    return;
+  }
+
+  const ready: string[] = [];
+  for (const [name, seen] of state.pending) {
+    const job = latestJobFor(name);
+    if (job && (job.state === "queued" || job.state === "running")) continue;
+
+    const current = fingerprint(name);
+    if (current !== seen) {
+      state.pending.set(name, current);
+      continue;
+    }
+    state.pending.delete(name);
+    ready.push(name);
+  }
+
+  if (ready.length > 0) {
+    try {
+      const jobs = syncDocuments(ready);
+      if (jobs.length > 0) {
+        const names = jobs.map((j) => `${j.filename} (${j.kind})`).join(", ");
+        console.log(`[RAG] Watcher queued ${jobs.length} job(s): ${names}`);
+      }
+    } catch (err) {
+      console.error(
+        "[RAG] ✗ Watcher could not check changed files:",
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+
+  if (state.pending.size > 0) schedule();
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Watches pdfs/ while the server runs: added or changed documents (and
+ * edited `.meta.json` sidecars) are ingested, and deleted documents have
+ * their vectors removed, without a restart. Bursts of changes are
+ * debounced and handled through the same job queue as startup ingestion.
+ * Does nothing when WATCH_DOCUMENTS=false or ingestion isn't configured.
+ */
+export function startDocumentWatcher(): void {
+  if (state.watcher) return;
+
+  if (!getRagConfig().watch.enabled) {
+    console.log("[RAG] Document watcher disabled (WATCH_DOCUMENTS=false).");
+    return;
+  }
+  try {
+    assertIngestConfigured();
+  } catch {
+    return;
+  }
+
+  fs.mkdirSync(PDFS_DIR, { recursive: true });
+  state.watcher = fs.watch(PDFS_DIR, (_event, filename) => onChange(filename));
+  state.watcher.on("error", (err) => {
+    console.error("[RAG] ✗ Document watcher stopped:", err.message);
+    stopDocumentWatcher();
+  });
+  console.log("[RAG] Watching pdfs/ for added, changed and deleted documents.");
+}
+
+/** Stops the watcher and drops any changes not yet acted on. */
+export function stopDocumentWatcher(): void {
+  state.watcher?.close();
+  state.watcher = undefined;
+  clearTimeout(state.timer);
+  state.timer = undefined;
+  state.pending.clear();
+  state.rescan = false;
+}
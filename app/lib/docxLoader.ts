@@ -0,0 +1,228 @@
+import zlib from "zlib";
+import type { DocumentLoader, DocumentPage } from "./documentLoaders";
+import { decodeEntities } from "./text";
+
+// ZIP record signatures (little-endian)
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Largest part we'll inflate; document.xml for a few hundred pages is well under this
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+// ── ZIP ────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads one file out of a ZIP archive (a .docx is a ZIP of XML parts).
+ * Handles stored and deflated entries, which is all Word writes; ZIP64
+ * archives are rejected, as are entries larger than MAX_ENTRY_BYTES or
+ * inflating past their declared size (a zip bomb). Returns undefined if
+ * the entry doesn't exist.
+ */
+function readZipEntry(zip: Buffer, name: string): Buffer | undefined {
+  // The end-of-central-directory record sits in the last 64 KB + 22 bytes
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65_557); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("not a ZIP archive");
+
+  const entries = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+
+  for (let i = 0; i < entries; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("corrupt ZIP central directory");
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const headerOffset = zip.readUInt32LE(offset + 42);
+    const entryName = zip.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (entryName !== name) continue;
+
+    if (zip.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`corrupt ZIP entry ${name}`);
+    }
+    const dataStart =
+      headerOffset + 30 + zip.readUInt16LE(headerOffset + 26) + zip.readUInt16LE(headerOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    if (size > MAX_ENTRY_BYTES) {
+      throw new Error(`ZIP entry ${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB`);
+    }
+    if (method === 0) return data;
+    if (method === 8) {
+      try {
+        return zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new Error(`ZIP entry ${name} inflates past its declared ${size} bytes`);
+        }
+        throw err;
+      }
+    }
+    throw new Error(`unsupported ZIP compression method ${method}`);
+  }
+  return undefined;
+}
+
+// ── WordprocessingML ───────────────────────────────────────────────────────
+
+// Heading level per paragraph style ID, from the style names in styles.xml
+// ("heading 2", "Title"), so localized style IDs still map
+function headingStyles(stylesXml: string | undefined): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const [, attrs, body] of (stylesXml ?? "").matchAll(
+    /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g
+  )) {
+    const id = attrs.match(/w:styleId="([^"]+)"/)?.[1];
+    const name = body.match(/<w:name w:val="([^"]+)"/)?.[1]?.toLowerCase();
+    if (!id || !name) continue;
+    const level = name === "title" ? 1 : Number(name.match(/^heading (\d)$/)?.[1]);
+    if (level) levels.set(id, level);
+  }
+  return levels;
+}
+
+// Tags the converter reacts to, plus the text between tags
+const TOKEN =
+  /<(\/?)w:(p|tbl|tr|tc|t|tab|br|cr|pStyle|numPr|lastRenderedPageBreak)\b([^>]*?)(\/?)>|([^<]+)/g;
+
+/**
+ * Converts `word/document.xml` to Markdown-style text split into pages.
+ * Heading styles become `#` headings, numbered and bulleted paragraphs
+ * `- ` items, and tables `| … |` rows. Pages break where Word last laid
+ * them out (`lastRenderedPageBreak`) or, for files never opened in Word,
+ * at manual page breaks.
+ */
+function documentToPages(documentXml: string, headings: Map<string, number>): DocumentPage[] {
+  const renderedBreaks = documentXml.includes("<w:lastRenderedPageBreak");
+  const pages: string[][] = [[]];
+  const emit = (line: string) => pages[pages.length - 1].push(line);
+  const newPage = () => {
+    if (pages[pages.length - 1].length > 0) pages.push([]);
+  };
+
+  let text = "";
+  let inText = false;
+  let level = 0;
+  let listItem = false;
+  let tableDepth = 0;
+  let cell: string[] = [];
+  let row: string[] = [];
+  let rows: string[][] = [];
+
+  for (const [, closing, tag, attrs, selfClosing, content] of documentXml.matchAll(TOKEN)) {
+    if (content !== undefined) {
+      if (inText) text += decodeEntities(content);
+      continue;
+    }
+
+    switch (tag) {
+      case "t":
+        inText = !closing && !selfClosing;
+        break;
+      case "tab":
+        if (!closing) text += tableDepth > 0 ? " " : "\t";
+        break;
+      case "br":
+      case "cr":
+        if (/w:type="page"/.test(attrs)) {
+          if (!renderedBreaks) newPage();
+        } else if (!/w:type=/.test(attrs)) {
+          text += tableDepth > 0 ? " " : "\n";
+        }
+        break;
+      case "lastRenderedPageBreak":
+        newPage();
+        break;
+      case "pStyle":
+        level = headings.get(attrs.match(/w:val="([^"]+)"/)?.[1] ?? "") ?? 0;
+        break;
+      case "numPr":
+        if (!closing) listItem = true;
+        break;
+      case "p":
+        if (!closing && !selfClosing) {
+          text = "";
+          level = 0;
+          listItem = false;
+          break;
+        }
+        if (tableDepth > 0) {
+          if (text.trim()) cell.push(text.trim());
+        } else if (text.trim()) {
+          const prefix = level ? `${"#".repeat(level)} ` : listItem ? "- " : "";
+          emit(prefix + text.trim());
+        }
+        text = "";
+        break;
+      case "tbl":
+        tableDepth += closing ? -1 : 1;
+        if (closing && tableDepth === 0 && rows.length > 0) {
+          // A table is one block: header row, separator, then the other rows
+          const lines = rows.map((cells) => `| ${cells.join(" | ")} |`);
+          lines.splice(1, 0, `|${" --- |".repeat(rows[0].length)}`);
+          emit(lines.join("\n"));
+          rows = [];
+        }
+        break;
+      case "tr":
+        if (tableDepth !== 1) break;
+        if (closing && row.length > 0) rows.push(row);
+        row = [];
+        break;
+      case "tc":
+        // Nested tables are flattened into the enclosing cell
+        if (tableDepth !== 1) break;
+        if (closing) row.push(cell.join(" ").replace(/\|/g, "\\|"));
+        cell = [];
+        break;
+    }
+  }
+
+  // List items stay on consecutive lines; other blocks are paragraphs apart
+  const isItem = (line?: string) => line?.startsWith("- ") ?? false;
+  return pages
+    .filter((lines) => lines.length > 0)
+    .map((lines, i) => ({
+      num: i + 1,
+      text: lines
+        .map((line, j) => (j === 0 || (isItem(line) && isItem(lines[j - 1])) ? line : `\n${line}`))
+        .join("\n"),
+    }));
+}
+
+// ── Loader ─────────────────────────────────────────────────────────────────
+
+export const docxLoader: DocumentLoader = {
+  format: "Word (.docx)",
+  contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  accepts: (data) => data.subarray(0, 4).toString("latin1") === "PK\x03\x04",
+  async load(data) {
+    let documentXml: Buffer | undefined;
+    let stylesXml: Buffer | undefined;
+    try {
+      documentXml = readZipEntry(data, "word/document.xml");
+      stylesXml = readZipEntry(data, "word/styles.xml");
+    } catch (err) {
+      throw new Error(`Could not read .docx archive: ${(err as Error).message}`);
+    }
+    if (!documentXml) throw new Error("Not a Word document (word/document.xml is missing)");
+
+    const pages = documentToPages(
+      documentXml.toString("utf-8"),
+      headingStyles(stylesXml?.toString("utf-8"))
+    );
+    return { pages, paginated: pages.length > 1 };
+  },
+};
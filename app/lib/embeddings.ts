@@ -0,0 +1,46 @@
+import { getRagConfig } from "./config";
+import { FakeEmbeddings } from "./fakeProviders";
+import { GeminiEmbeddings } from "./geminiEmbeddings";
+import { OpenAICompatibleEmbeddings } from "./openaiCompatible";
+
+/**
+ * Anything that turns text into vectors. Every implementation must throw
+ * on failure rather than return empty vectors.
+ */
+export interface EmbeddingProvider {
+  readonly modelName: string;
+  readonly dimension: number;
+  embedQuery(text: string): Promise<number[]>;
+  embedDocuments(documents: string[]): Promise<number[][]>;
+}
+
+/** Returns the embedding provider selected by EMBEDDING_PROVIDER. */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const { embedding, gemini, openai } = getRagConfig();
+
+  switch (embedding.provider) {
+    case "fake":
+      return new FakeEmbeddings({
+        dimension: embedding.dimension,
+        modelName: embedding.model,
+      });
+    case "openai":
+      return new OpenAICompatibleEmbeddings({
+        baseUrl: openai.baseUrl!,
+        apiKey: openai.apiKey,
+        modelName: embedding.model,
+        dimension: embedding.dimension,
+      });
+    case "gemini":
+      return new GeminiEmbeddings({
+        apiKey: gemini.apiKey!,
+        baseUrl: gemini.baseUrl,
+        modelName: embedding.model,
+        outputDimensionality: embedding.dimension,
+        batchSize: gemini.embedBatchSize,
+        concurrency: gemini.embedConcurrency,
+        requestsPerMinute: gemini.requestsPerMinute,
+        maxRetries: gemini.maxRetries,
+      });
+  }
+}
@@ -0,0 +1,222 @@
+import type { ChatOptions, ChatProvider, ChatResult } from "./chat";
+import type { EmbeddingProvider } from "./embeddings";
+import { extractSnippet } from "./citations";
+import type { JsonSchema } from "./jsonSchema";
+import { detectLanguageLocally } from "./language";
+import { stem, tokenize } from "./text";
+
+// Passages quoted in a fake answer
+const FAKE_ANSWER_PASSAGES = 2;
+
+export const FAKE_NO_ANSWER =
+  "Hmm, I don't see anything about that in the documents — could you rephrase, or is there another doc I should check?";
+
+// 32-bit FNV-1a hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ── Embeddings ─────────────────────────────────────────────────────────────
+
+/**
+ * Deterministic, offline EmbeddingProvider: a hashed bag-of-words. Each
+ * token (and each adjacent token pair) is hashed into one of `dimension`
+ * buckets with a hashed sign, and the result is L2-normalised. Texts that
+ * share words get a high cosine similarity, which is enough for CI and
+ * local development without API keys.
+ */
+export class FakeEmbeddings implements EmbeddingProvider {
+  readonly modelName: string;
+  readonly dimension: number;
+
+  constructor(options: { dimension: number; modelName?: string }) {
+    this.dimension = options.dimension;
+    this.modelName = options.modelName ?? "fake-hashed-bow";
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimension).fill(0);
+    // Stemmed so "leave" and "leaves" share a bucket
+    const tokens = tokenize(text).map(stem);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`),
+    ];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      vector[hash % this.dimension] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) {
+      // Keep vectors non-zero so cosine similarity is always defined
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map((v) => v / norm);
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return Promise.all(documents.map((d) => this.embedQuery(d)));
+  }
+}
+
+// ── Chat ───────────────────────────────────────────────────────────────────
+
+/**
+ * Deterministic, offline ChatProvider that answers from templates.
+ *
+ * It recognises the prompts this app builds:
+ * - follow-up rewriting ("Follow-up question: …") → the follow-up unchanged
+ * - reranking ("Passages:" … "Scores:") → JSON scores by term overlap
+ * - grounding checks ("Claims:" … "Verdicts:") → JSON verdicts by term overlap
+ * - language detection ("Language tag:") → the local detector's answer
+ * - translation ("Text:" … "Translation:") → the text unchanged (it can't translate)
+ * - answering (numbered "[n] (source)" passages + "Question: …") → the
+ *   best-matching sentence of the top passages, each cited with its marker
+ * Anything else gets FAKE_NO_ANSWER. With a `responseSchema`, the answer
+ * is poured into a JSON value of that shape (see fakeJson).
+ */
+export class FakeChat implements ChatProvider {
+  readonly modelName: string;
+
+  constructor(modelName = "fake-template") {
+    this.modelName = modelName;
+  }
+
+  private respond(prompt: string): string {
+    const followUp = prompt.match(/^Follow-up question: (.*)$/m)?.[1];
+    if (followUp !== undefined) return followUp.trim();
+
+    const question = prompt.match(/^Question: (.*)$/m)?.[1] ?? "";
+    const wanted = new Set(tokenize(question));
+
+    if (prompt.trimEnd().endsWith("Language tag:")) return detectLanguageLocally(question).code;
+
+    if (/^Text:$/m.test(prompt) && prompt.trimEnd().endsWith("Translation:")) {
+      return prompt.split(/^Text:\n/m)[1].replace(/\s*Translation:\s*$/, "");
+    }
+
+    if (/^Passages:$/m.test(prompt) && prompt.trimEnd().endsWith("Scores:")) {
+      const terms = new Set([...wanted].map(stem));
+      const scores: Record<string, number> = {};
+      for (const [, marker, text] of prompt.matchAll(/^\[(\d+)\] (.*)$/gm)) {
+        const present = new Set(tokenize(text).map(stem));
+        const hits = [...terms].filter((t) => present.has(t)).length;
+        scores[marker] = terms.size ? Math.round((10 * hits) / terms.size) : 0;
+      }
+      return JSON.stringify(scores);
+    }
+
+    if (/^Claims:$/m.test(prompt) && prompt.trimEnd().endsWith("Verdicts:")) {
+      const [passageBlock, claimBlock] = prompt.split(/^Claims:$/m);
+      const passages = [...passageBlock.matchAll(/^\[(\d+)\] (.*)$/gm)].map(([, marker, text]) => ({
+        marker: Number(marker),
+        terms: new Set(tokenize(text).map(stem)),
+      }));
+      const verdicts: Record<string, { verdict: string; passages: number[] }> = {};
+      for (const [, n, claim] of claimBlock.matchAll(/^(\d+)\. (.*)$/gm)) {
+        const terms = [...new Set(tokenize(claim).map(stem))];
+        let best = { share: 0, marker: 0 };
+        for (const p of passages) {
+          const share = terms.length ? terms.filter((t) => p.terms.has(t)).length / terms.length : 0;
+          if (share > best.share) best = { share, marker: p.marker };
+        }
+        verdicts[n] = {
+          verdict: best.share >= 0.7 ? "supported" : best.share >= 0.4 ? "partial" : "unsupported",
+          passages: best.share >= 0.4 ? [best.marker] : [],
+        };
+      }
+      return JSON.stringify(verdicts);
+    }
+
+    // A passage runs until the next "---" divider or the next prompt section
+    const passagePattern =
+      /^\[(\d+)\] \(.*\)\n([\s\S]*?)(?=\n\n---\n\n|\n+[A-Z][\w ]*:\n|\n+Question: |(?![\s\S]))/gm;
+    const passages = [...prompt.matchAll(passagePattern)]
+      .map((m) => ({ marker: m[1], text: m[2] }))
+      .filter((p) => tokenize(p.text).some((t) => wanted.has(t)))
+      .slice(0, FAKE_ANSWER_PASSAGES);
+
+    if (passages.length === 0) return FAKE_NO_ANSWER;
+
+    return passages
+      .map((p) => `${extractSnippet(p.text, question)} [${p.marker}]`)
+      .join("\n");
+  }
+
+  async generate(prompt: string, options: ChatOptions = {}): Promise<ChatResult> {
+    const answer = this.respond(prompt);
+    const text = options.responseSchema
+      ? JSON.stringify(fakeJson(options.responseSchema, answerLines(answer)))
+      : answer;
+    return { text, usage: estimateUsage(prompt, text) };
+  }
+
+  async stream(
+    prompt: string,
+    onToken: (text: string) => void
+  ): Promise<ChatResult> {
+    const text = this.respond(prompt);
+    for (const piece of text.match(/\S+\s*/g) ?? []) onToken(piece);
+    return { text, usage: estimateUsage(prompt, text) };
+  }
+}
+
+interface FakeLine {
+  text: string;
+  markers: number[];
+}
+
+// An answer's lines without their citation markers, and the markers
+function answerLines(answer: string): FakeLine[] {
+  return answer.split("\n").map((line) => ({
+    text: line.replace(/\s*\[\d+\]/g, "").trim(),
+    markers: [...line.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1])),
+  }));
+}
+
+/**
+ * Fills `schema` from the answer's lines: strings get the text, integer
+ * lists the citation markers, enums their first value, and a list of
+ * objects one object per line.
+ */
+function fakeJson(schema: JsonSchema, lines: FakeLine[]): unknown {
+  switch (schema.type) {
+    case "string":
+      return schema.enum ? schema.enum[0] : lines.map((l) => l.text).join(" ");
+    case "number":
+    case "integer":
+      return lines[0]?.markers[0] ?? 0;
+    case "boolean":
+      return lines.length > 0;
+    case "array": {
+      const items = schema.items!;
+      let values =
+        items.type === "integer" || items.type === "number"
+          ? [...new Set(lines.flatMap((l) => l.markers))]
+          : lines.map((line) => fakeJson(items, [line]));
+      while (values.length < (schema.minItems ?? 0)) values.push(fakeJson(items, lines));
+      if (schema.maxItems !== undefined) values = values.slice(0, schema.maxItems);
+      return values;
+    }
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, p]) => [name, fakeJson(p, lines)])
+      );
+  }
+}
+
+// Rough token counts (≈ words) so usage reporting has something to show
+function estimateUsage(prompt: string, answer: string) {
+  const count = (s: string) => s.split(/\s+/).filter(Boolean).length;
+  const promptTokens = count(prompt);
+  const answerTokens = count(answer);
+  return { promptTokens, answerTokens, totalTokens: promptTokens + answerTokens };
+}
@@ -0,0 +1,252 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { normalizeQuestion } from "./queryCache";
+
+// Default location of the feedback log (override with FEEDBACK_PATH)
+const DEFAULT_FEEDBACK_PATH = path.join(process.cwd(), ".data", "feedback.jsonl");
+
+// Answers can be rated for this long after they were given
+const ANSWER_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on answers kept in memory (oldest evicted first)
+const MAX_ANSWERS = 2000;
+
+// Longest comment stored
+export const MAX_COMMENT_LENGTH = 2000;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type Rating = "up" | "down";
+
+/** Models and retrieval settings an answer was produced with. */
+export interface AnswerSettings {
+  embeddingModel: string;
+  dimension: number;
+  chatModel: string;
+  reranker: string;
+  rerankMinScore?: number;
+  topK: number;
+  /** Prompt profile and version (see app/lib/promptProfiles.ts). */
+  promptProfile?: string;
+  promptVersion?: number;
+  /** Language tag the question was asked (and answered) in. */
+  language?: string;
+}
+
+/** A chunk that was in the answer's prompt. */
+export interface AnswerChunk {
+  id: string;
+  source?: string;
+  page?: number;
+  /** Whether the answer cites it. */
+  cited: boolean;
+}
+
+/** Everything needed to judge an answer later, kept until it is rated. */
+export interface AnswerRecord {
+  answerId: string;
+  conversationId: string;
+  /** User who asked; nobody else can rate the answer. */
+  username: string;
+  question: string;
+  standaloneQuestion: string;
+  answer: string;
+  chunks: AnswerChunk[];
+  settings: AnswerSettings;
+  answeredAt: string;
+}
+
+/** One line of the feedback log. */
+export interface FeedbackEntry extends AnswerRecord {
+  rating: Rating;
+  comment?: string;
+  /** The user says the answer relied on the wrong document. */
+  wrongSource: boolean;
+  ratedAt: string;
+}
+
+export interface QuestionStats {
+  question: string;
+  up: number;
+  down: number;
+  wrongSource: number;
+  /** Most recent comments first. */
+  comments: string[];
+  lastRatedAt: string;
+}
+
+export interface DocumentStats {
+  source: string;
+  /** Thumbs-down answers that cited (or, if none were cited, retrieved) it. */
+  badAnswers: number;
+  /** Answers flagged "wrong source" that cited it. */
+  wrongSource: number;
+  goodAnswers: number;
+}
+
+export interface FeedbackAnalytics {
+  totals: { ratings: number; up: number; down: number; wrongSource: number; comments: number };
+  lowestRatedQuestions: QuestionStats[];
+  problemDocuments: DocumentStats[];
+}
+
+// ── Recent answers ─────────────────────────────────────────────────────────
+
+// Kept on globalThis so dev-mode hot reloads don't forget rateable answers
+const store = globalThis as unknown as {
+  __ragAnswers?: Map<string, { record: AnswerRecord; at: number }>;
+};
+const answers = (store.__ragAnswers ??= new Map());
+
+function pruneExpired(now: number): void {
+  for (const [id, { at }] of answers) {
+    if (now - at > ANSWER_TTL_MS) answers.delete(id);
+  }
+  // Map iterates in insertion order, so the first keys are the oldest
+  while (answers.size > MAX_ANSWERS) {
+    answers.delete(answers.keys().next().value!);
+  }
+}
+
+/** Remembers an answer so it can be rated. Returns its `answerId`. */
+export function recordAnswer(record: Omit<AnswerRecord, "answerId" | "answeredAt">): string {
+  const now = Date.now();
+  pruneExpired(now);
+  const answerId = randomUUID();
+  answers.set(answerId, {
+    record: { ...record, answerId, answeredAt: new Date(now).toISOString() },
+    at: now,
+  });
+  return answerId;
+}
+
+// ── Feedback log ───────────────────────────────────────────────────────────
+
+function feedbackPath(): string {
+  return process.env.FEEDBACK_PATH || DEFAULT_FEEDBACK_PATH;
+}
+
+/**
+ * Stores a rating for a recent answer, together with its question, chunk
+ * IDs, answer and settings. Rating the same answer again replaces the
+ * earlier rating. Returns undefined if the answer is unknown, expired or
+ * was given to someone other than `username`.
+ */
+export function saveFeedback(
+  answerId: string,
+  username: string,
+  feedback: { rating: Rating; comment?: string; wrongSource: boolean }
+): FeedbackEntry | undefined {
+  const record = answers.get(answerId)?.record;
+  if (!record || record.username !== username) return undefined;
+
+  const entry: FeedbackEntry = {
+    ...record,
+    rating: feedback.rating,
+    comment: feedback.comment || undefined,
+    wrongSource: feedback.wrongSource,
+    ratedAt: new Date().toISOString(),
+  };
+
+  // One JSON object per line: appends never rewrite earlier feedback
+  const filePath = feedbackPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`, "utf-8");
+  return entry;
+}
+
+/** Reads the feedback log, keeping only the latest rating per answer. */
+export function loadFeedback(): FeedbackEntry[] {
+  const filePath = feedbackPath();
+  if (!fs.existsSync(filePath)) return [];
+
+  const latest = new Map<string, FeedbackEntry>();
+  for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as FeedbackEntry;
+      latest.set(entry.answerId, entry);
+    } catch {
+      // A torn last line (crash mid-append) — skip it
+    }
+  }
+  return [...latest.values()];
+}
+
+// ── Analytics ──────────────────────────────────────────────────────────────
+
+// Documents an answer leaned on: the cited chunks, else everything retrieved
+function linkedSources(entry: FeedbackEntry): string[] {
+  const cited = entry.chunks.filter((c) => c.cited);
+  return [
+    ...new Set(
+      (cited.length > 0 ? cited : entry.chunks).flatMap((c) => (c.source ? [c.source] : []))
+    ),
+  ];
+}
+
+/**
+ * Summarises the feedback log for admins: the questions with the most
+ * thumbs-down ratings (grouped by normalized standalone question) and the
+ * documents most often behind bad or wrong-source answers — the policies
+ * most worth rewriting. Both lists hold at most `limit` items.
+ */
+export function feedbackAnalytics(limit: number): FeedbackAnalytics {
+  const entries = loadFeedback().sort((a, b) => b.ratedAt.localeCompare(a.ratedAt));
+
+  const totals = { ratings: entries.length, up: 0, down: 0, wrongSource: 0, comments: 0 };
+  const questions = new Map<string, QuestionStats>();
+  const documents = new Map<string, DocumentStats>();
+
+  // Newest first, so the first wording and comments seen are the latest
+  for (const entry of entries) {
+    totals[entry.rating]++;
+    if (entry.wrongSource) totals.wrongSource++;
+    if (entry.comment) totals.comments++;
+
+    const key = normalizeQuestion(entry.standaloneQuestion);
+    let q = questions.get(key);
+    if (!q) {
+      q = {
+        question: entry.standaloneQuestion,
+        up: 0,
+        down: 0,
+        wrongSource: 0,
+        comments: [],
+        lastRatedAt: entry.ratedAt,
+      };
+      questions.set(key, q);
+    }
+    q[entry.rating]++;
+    if (entry.wrongSource) q.wrongSource++;
+    if (entry.comment) q.comments.push(entry.comment);
+
+    for (const source of linkedSources(entry)) {
+      let d = documents.get(source);
+      if (!d) {
+        d = { source, badAnswers: 0, wrongSource: 0, goodAnswers: 0 };
+        documents.set(source, d);
+      }
+      if (entry.rating === "down") d.badAnswers++;
+      else d.goodAnswers++;
+      if (entry.wrongSource) d.wrongSource++;
+    }
+  }
+
+  const lowestRatedQuestions = [...questions.values()]
+    .filter((q) => q.down > 0 || q.wrongSource > 0)
+    .sort((a, b) => b.down - b.up - (a.down - a.up) || b.down - a.down)
+    .slice(0, limit);
+
+  const problemDocuments = [...documents.values()]
+    .filter((d) => d.badAnswers > 0 || d.wrongSource > 0)
+    .sort(
+      (a, b) =>
+        b.badAnswers + b.wrongSource - (a.badAnswers + a.wrongSource) ||
+        a.goodAnswers - b.goodAnswers
+    )
+    .slice(0, limit);
+
+  return { totals, lowestRatedQuestions, problemDocuments };
+}
@@ -1,9 +1,49 @@
 import { Embeddings } from "@langchain/core/embeddings";
+import type { EmbeddingProvider } from "./embeddings";
+import { fetchWithRetry, mapWithConcurrency, TokenBucket } from "./retry";
+
+// Shape of a Gemini REST error body
+interface GeminiError {
+  code: number;
+  message: string;
+  status: string;
+}
 
 // Shape of the Gemini embedContent REST response
 interface EmbedContentResponse {
   embedding?: { values: number[] };
-  error?: { code: number; message: string; status: string };
+  error?: GeminiError;
+}
+
+// Shape of the Gemini batchEmbedContents REST response
+interface BatchEmbedContentsResponse {
+  embeddings?: { values: number[] }[];
+  error?: GeminiError;
+}
+
+// One rate limiter per endpoint + model, shared by every instance (a new
+// provider is created per request) and kept across dev-mode hot reloads
+const store = globalThis as unknown as { __ragGeminiLimiters?: Map<string, TokenBucket> };
+const limiters = (store.__ragGeminiLimiters ??= new Map());
+
+function limiterFor(key: string, requestsPerMinute: number): TokenBucket {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    // Allow a short burst, then settle at the configured rate
+    limiter = new TokenBucket(requestsPerMinute, Math.min(10, requestsPerMinute));
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+// Parses a JSON body, tolerating HTML error pages from proxies
+async function readJson<T extends { error?: GeminiError }>(res: Response): Promise<T> {
+  const body = await res.text();
+  try {
+    return JSON.parse(body);
+  } catch {
+    return { error: { code: res.status, message: body.slice(0, 200), status: "" } } as T;
+  }
 }
 
 /**
@@ -16,42 +56,78 @@ interface EmbedContentResponse {
  * - It doesn't expose the outputDimensionality parameter.
  *
  * This class:
- * - Calls embedContent via fetch (full access to all REST params)
+ * - Calls embedContent / batchEmbedContents via fetch (full access to all
+ *   REST params)
  * - Supports outputDimensionality to match any Pinecone index dimension
- * - Throws real errors on API failure so bugs are visible
+ * - Sends documents in batches, a few requests at a time, under a
+ *   requests-per-minute budget
+ * - Retries 429s and 5xx errors with exponential backoff, honouring
+ *   Retry-After
+ * - Throws real errors on API failure so bugs are visible — a failed batch
+ *   fails the whole call; it never yields empty vectors
  */
-export class GeminiEmbeddings extends Embeddings {
+export class GeminiEmbeddings extends Embeddings implements EmbeddingProvider {
   private apiKey: string;
-  private modelName: string;
+  private baseUrl: string;
+  readonly modelName: string;
   private outputDimensionality: number;
+  private batchSize: number;
+  private concurrency: number;
+  private maxRetries: number;
+  private limiter: TokenBucket;
 
   constructor(options: {
     apiKey: string;
+    baseUrl?: string;
     modelName?: string;
     outputDimensionality?: number;
+    batchSize?: number;
+    concurrency?: number;
+    requestsPerMinute?: number;
+    maxRetries?: number;
   }) {
     super({});
     this.apiKey = options.apiKey;
+    this.baseUrl =
+      options.baseUrl ?? "https://generativelanguage.googleapis.com/v1beta";
     this.modelName = options.modelName ?? "gemini-embedding-001";
     // gemini-embedding-001 supports 1–3072 dims.
     // Default 1024 to match common Pinecone index setups.
     this.outputDimensionality = options.outputDimensionality ?? 1024;
+    this.batchSize = options.batchSize ?? 25;
+    this.concurrency = options.concurrency ?? 4;
+    this.maxRetries = options.maxRetries ?? 5;
+    this.limiter = limiterFor(
+      `${this.baseUrl}|${this.modelName}`,
+      options.requestsPerMinute ?? 100
+    );
+  }
+
+  get dimension(): number {
+    return this.outputDimensionality;
+  }
+
+  private post(method: string, body: unknown): Promise<Response> {
+    const url = `${this.baseUrl}/models/${this.modelName}:${method}?key=${this.apiKey}`;
+    return fetchWithRetry(
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+      { maxRetries: this.maxRetries, limiter: this.limiter, label: `Gemini ${method}` }
+    );
   }
 
   /** Embed a single query string via the Gemini REST API. */
   async embedQuery(text: string): Promise<number[]> {
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.modelName}:embedContent?key=${this.apiKey}`;
-
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        content: { parts: [{ text }], role: "user" },
-        outputDimensionality: this.outputDimensionality,
-      }),
+    const res = await this.post("embedContent", {
+      content: { parts: [{ text }], role: "user" },
+      outputDimensionality: this.outputDimensionality,
     });
 
-    const data: EmbedContentResponse = await res.json();
+    const data = await readJson<EmbedContentResponse>(res);
 
     if (!res.ok || data.error) {
       throw new Error(
@@ -69,12 +145,53 @@ export class GeminiEmbeddings extends Embeddings {
     return values;
   }
 
-  /** Embed an array of documents (sequentially to avoid rate limits). */
+  /** Embed up to `batchSize` texts in one batchEmbedContents request. */
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const res = await this.post("batchEmbedContents", {
+      requests: texts.map((text) => ({
+        model: `models/${this.modelName}`,
+        content: { parts: [{ text }], role: "user" },
+        outputDimensionality: this.outputDimensionality,
+      })),
+    });
+
+    const data = await readJson<BatchEmbedContentsResponse>(res);
+
+    if (!res.ok || data.error) {
+      throw new Error(
+        `Gemini batchEmbedContents failed (${res.status}): ${data.error?.message ?? "unknown error"}`
+      );
+    }
+
+    const embeddings = data.embeddings ?? [];
+    if (embeddings.length !== texts.length) {
+      throw new Error(
+        `Gemini batchEmbedContents returned ${embeddings.length} vector(s) for ${texts.length} text(s)`
+      );
+    }
+
+    return embeddings.map(({ values }, i) => {
+      if (!values || values.length === 0) {
+        throw new Error(
+          `Gemini batchEmbedContents returned an empty vector for: "${texts[i].slice(0, 60)}"`
+        );
+      }
+      return values;
+    });
+  }
+
+  /**
+   * Embed an array of documents: split into batchEmbedContents requests
+   * sent `concurrency` at a time. Results keep the input order.
+   */
   async embedDocuments(documents: string[]): Promise<number[][]> {
-    const results: number[][] = [];
-    for (const doc of documents) {
-      results.push(await this.embedQuery(doc));
+    const batches: string[][] = [];
+    for (let i = 0; i < documents.length; i += this.batchSize) {
+      batches.push(documents.slice(i, i + this.batchSize));
     }
-    return results;
+    const results = await mapWithConcurrency(batches, this.concurrency, (batch) =>
+      this.embedBatch(batch)
+    );
+    return results.flat();
   }
 }
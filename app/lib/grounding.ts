@@ -0,0 +1,344 @@
+import type { ChatProvider } from "./chat";
+import type { CitationInput } from "./citations";
+import { getRagConfig, GroundingAction, GroundingCheckName } from "./config";
+import { stem, tokenize } from "./text";
+
+// Characters of each chunk shown to the LLM judge
+const LLM_PASSAGE_LENGTH = 1200;
+
+// Claim score at or above which a claim counts as fully supported; between
+// GROUNDING_MIN_SCORE and this it is "partial"
+const SUPPORTED_SCORE = 0.7;
+
+// Shorter statements ("Sure!", "Here's what I found:") aren't checked
+const MIN_CLAIM_TERMS = 3;
+
+// Appended to each unsupported claim when GROUNDING_ACTION=flag
+export const UNVERIFIED_FLAG = "[unverified]";
+
+// Inline citation markers such as [2] or [1, 3]
+const MARKER_PATTERN = /\[\d+(?:\s*,\s*\d+)*\]/g;
+
+// Sentence ends (with any markers that follow them); a marker is never
+// split from the sentence it cites
+const CLAIM_BOUNDARY =
+  /(?<=[.!?]["”’)]?(?:\s*\[\d+(?:\s*,\s*\d+)*\])*)\s+(?!\[\d)/;
+
+// Bullet or step prefixes, kept when a line is rebuilt
+const LIST_PREFIX = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// "I don't see that in the documents"-style statements are about the
+// search, not the policy, so there's nothing to verify
+const NO_ANSWER_PATTERN =
+  /\b(?:don['’]t|do not|doesn['’]t|does not|couldn['’]t|could not|can['’]t|cannot)\b[^.]*\b(?:documents?|context|passages?|policies)\b|\b(?:documents?|context|passages?)\b[^.]*\b(?:don['’]t|do not|doesn['’]t|does not)\b/i;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type ClaimSupport = "supported" | "partial" | "unsupported";
+
+/** One checkable statement of an answer. */
+export interface Claim {
+  text: string;
+  /** Passage markers the claim cites, e.g. [2] → 2. */
+  markers: number[];
+}
+
+/** A judge's view of one claim. */
+export interface ClaimJudgement {
+  /** 0–1, how well the passages back the claim. */
+  score: number;
+  /** Markers of the passages that back it. */
+  evidence: number[];
+  reason?: string;
+}
+
+export interface ClaimVerdict extends Claim, ClaimJudgement {
+  support: ClaimSupport;
+}
+
+/** Reported with every generated answer. */
+export interface GroundingReport {
+  check: Exclude<GroundingCheckName, "none">;
+  /** "report" leaves the answer untouched (structured answers). */
+  action: GroundingAction | "report";
+  /** Mean claim score, 0–1 (1 when the answer makes no checkable claims). */
+  score: number;
+  claims: ClaimVerdict[];
+  unsupported: number;
+  /** Claims taken out of the answer (GROUNDING_ACTION=strip). */
+  removed: number;
+  /**
+   * Language the answer was written in, when the judge can't compare
+   * across languages and its claims were checked in a back-translation.
+   */
+  translatedFrom?: string;
+}
+
+/**
+ * Decides how well the numbered passages (markers follow the order of
+ * `chunks`) support each claim. Returns one judgement per claim, in order.
+ */
+export interface GroundingJudge {
+  readonly name: Exclude<GroundingCheckName, "none">;
+  /** Whether it can check claims written in another language than the passages. */
+  readonly crossLingual: boolean;
+  judge(claims: Claim[], chunks: CitationInput[]): Promise<ClaimJudgement[]>;
+}
+
+// ── Claims ─────────────────────────────────────────────────────────────────
+
+interface AnswerLine {
+  prefix: string;
+  /** Sentences of the line, with the index of their claim if checkable. */
+  segments: { text: string; claim?: number }[];
+}
+
+const markersOf = (text: string) =>
+  [...text.matchAll(MARKER_PATTERN)].flatMap((m) =>
+    m[0].slice(1, -1).split(",").map((n) => Number(n.trim()))
+  );
+
+const withoutMarkers = (text: string) => text.replace(MARKER_PATTERN, "").trim();
+
+function isCheckable(text: string): boolean {
+  const body = withoutMarkers(text);
+  if (body.endsWith("?") || NO_ANSWER_PATTERN.test(body)) return false;
+  return tokenize(body).length >= MIN_CLAIM_TERMS || /\d/.test(body);
+}
+
+// Splits an answer into lines of sentences, numbering the checkable ones
+function parseAnswer(answer: string): { lines: AnswerLine[]; claims: Claim[] } {
+  const claims: Claim[] = [];
+  const lines = answer.split("\n").map((line): AnswerLine => {
+    const prefix = line.match(LIST_PREFIX)?.[0] ?? "";
+    const segments = line
+      .slice(prefix.length)
+      .split(CLAIM_BOUNDARY)
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((text) => {
+        if (!isCheckable(text)) return { text };
+        claims.push({ text, markers: markersOf(text) });
+        return { text, claim: claims.length - 1 };
+      });
+    return { prefix, segments };
+  });
+  return { lines, claims };
+}
+
+/** The checkable statements of an answer, in order. */
+export function splitClaims(answer: string): Claim[] {
+  return parseAnswer(answer).claims;
+}
+
+// ── Lexical ────────────────────────────────────────────────────────────────
+
+const terms = (text: string) => new Set(tokenize(withoutMarkers(text)).map(stem));
+
+/**
+ * Local judge: scores a claim by the share of its (stemmed, non-stop-word)
+ * terms found in the passage that covers it best. Free and deterministic,
+ * but paraphrases score low — pair it with a modest GROUNDING_MIN_SCORE.
+ */
+export class LexicalJudge implements GroundingJudge {
+  readonly name = "lexical" as const;
+  readonly crossLingual = false;
+
+  async judge(claims: Claim[], chunks: CitationInput[]): Promise<ClaimJudgement[]> {
+    const passages = chunks.map((c) => terms(c.text));
+
+    return claims.map((claim) => {
+      const wanted = terms(claim.text);
+      let best = { score: 0, marker: 0 };
+      passages.forEach((present, i) => {
+        const hits = [...wanted].filter((t) => present.has(t)).length;
+        const score = wanted.size ? hits / wanted.size : 0;
+        if (score > best.score) best = { score, marker: i + 1 };
+      });
+      return { score: best.score, evidence: best.marker ? [best.marker] : [] };
+    });
+  }
+}
+
+// ── LLM ────────────────────────────────────────────────────────────────────
+
+// Score given to each verdict of the LLM judge
+const VERDICT_SCORES: Record<ClaimSupport, number> = {
+  supported: 1,
+  partial: 0.5,
+  unsupported: 0,
+};
+
+/**
+ * Asks the chat model for a verdict on every claim in one call. If the
+ * reply can't be parsed, falls back to lexical scores rather than failing
+ * the query.
+ */
+export class LLMJudge implements GroundingJudge {
+  readonly name = "llm" as const;
+  readonly crossLingual = true;
+
+  constructor(private llm: ChatProvider) {}
+
+  async judge(claims: Claim[], chunks: CitationInput[]): Promise<ClaimJudgement[]> {
+    if (claims.length === 0) return [];
+
+    const passages = chunks
+      .map((c, i) => `[${i + 1}] ${c.text.replace(/\s+/g, " ").slice(0, LLM_PASSAGE_LENGTH)}`)
+      .join("\n\n");
+    const numbered = claims.map((c, i) => `${i + 1}. ${withoutMarkers(c.text)}`).join("\n");
+
+    const prompt = `Check each claim against the numbered passages. For every claim, decide whether the passages state it:
+"supported" (stated or directly implied), "partial" (only part of it is stated) or "unsupported" (not stated, or contradicted).
+Reply with JSON only: an object mapping every claim number to {"verdict": …, "passages": [numbers of the passages that support it], "reason": short explanation if not supported},
+e.g. {"1": {"verdict": "supported", "passages": [2]}, "2": {"verdict": "unsupported", "passages": [], "reason": "no passage gives a number of days"}}.
+
+Passages:
+${passages}
+
+Claims:
+${numbered}
+
+Verdicts:`;
+
+    try {
+      const { text } = await this.llm.generate(prompt, { temperature: 0 });
+      const json = text.match(/\{[\s\S]*\}/)?.[0];
+      if (!json) throw new Error("reply contained no JSON object");
+
+      const verdicts = JSON.parse(json) as Record<
+        string,
+        { verdict?: string; passages?: unknown; reason?: unknown } | undefined
+      >;
+      return claims.map((_, i) => {
+        const v = verdicts[String(i + 1)];
+        // "Supported", " partial" and the like count; anything else fails the parse
+        const verdict = typeof v?.verdict === "string" ? v.verdict.trim().toLowerCase() : "";
+        if (!Object.hasOwn(VERDICT_SCORES, verdict)) {
+          throw new Error(`claim ${i + 1} has no valid verdict`);
+        }
+        return {
+          score: VERDICT_SCORES[verdict as ClaimSupport],
+          evidence: Array.isArray(v?.passages)
+            ? v.passages.map(Number).filter((n) => n >= 1 && n <= chunks.length)
+            : [],
+          reason: typeof v?.reason === "string" && v.reason ? v.reason : undefined,
+        };
+      });
+    } catch (err) {
+      console.warn(
+        "[RAG] LLM grounding check failed — falling back to lexical scores:",
+        err instanceof Error ? err.message : err
+      );
+      return new LexicalJudge().judge(claims, chunks);
+    }
+  }
+}
+
+// ── Verification ───────────────────────────────────────────────────────────
+
+// Numbers (days, amounts, dates, clause refs) in the claim that appear in no passage
+function unknownNumbers(claim: Claim, chunks: CitationInput[]): string[] {
+  const numbers = tokenize(withoutMarkers(claim.text), true).filter((t) => /\d/.test(t));
+  if (numbers.length === 0) return [];
+  const present = new Set(chunks.flatMap((c) => tokenize(c.text, true)));
+  return numbers.filter((n) => !present.has(n));
+}
+
+// Why a claim fails regardless of its score, if it does
+function hardFailure(claim: Claim, chunks: CitationInput[]): string | undefined {
+  const invented = unknownNumbers(claim, chunks);
+  if (invented.length > 0) return `No passage mentions ${invented.join(", ")}`;
+  const phantom = claim.markers.filter((m) => m < 1 || m > chunks.length);
+  if (phantom.length > 0) return `Cites [${phantom.join(", ")}], which is not a retrieved passage`;
+  return undefined;
+}
+
+/**
+ * Checks every claim of `answer` against the chunks that were in its
+ * prompt. A claim is unsupported if its score is below GROUNDING_MIN_SCORE,
+ * if it mentions a number no chunk contains — an invented entitlement is
+ * the error that matters most — or if it cites a passage that wasn't
+ * retrieved. Unsupported claims are then flagged with
+ * UNVERIFIED_FLAG or stripped (`action`, default GROUNDING_ACTION), or,
+ * with "report", only counted. Returns the answer to show, which is empty
+ * if every claim was stripped.
+ */
+export async function verifyAnswer(
+  answer: string,
+  chunks: CitationInput[],
+  judge: GroundingJudge,
+  action: GroundingAction | "report" = getRagConfig().grounding.action
+): Promise<{ answer: string; grounding: GroundingReport }> {
+  const { minScore } = getRagConfig().grounding;
+  const { lines, claims } = parseAnswer(answer);
+  const judgements = await judge.judge(claims, chunks);
+
+  const verdicts = claims.map((claim, i): ClaimVerdict => {
+    const judged = judgements[i] ?? { score: 0, evidence: [] };
+    const failure = hardFailure(claim, chunks);
+    const score = failure ? 0 : judged.score;
+    return {
+      ...claim,
+      score,
+      evidence: failure ? [] : judged.evidence,
+      support:
+        score >= Math.max(SUPPORTED_SCORE, minScore)
+          ? "supported"
+          : score >= minScore
+            ? "partial"
+            : "unsupported",
+      reason: failure ?? judged.reason,
+    };
+  });
+
+  const unsupported = (i?: number) => i !== undefined && verdicts[i].support === "unsupported";
+  let removed = 0;
+  const shown = lines
+    .flatMap(({ prefix, segments }) => {
+      if (segments.length === 0) return [""];
+      const kept = segments.flatMap(({ text, claim }) => {
+        if (!unsupported(claim) || action === "report") return [text];
+        if (action === "flag") return [`${text} ${UNVERIFIED_FLAG}`];
+        removed++;
+        return [];
+      });
+      return kept.length > 0 ? [`${prefix}${kept.join(" ")}`] : [];
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  // Headings and filler left over once every claim is gone say nothing
+  return {
+    answer: removed > 0 && removed === verdicts.length ? "" : shown,
+    grounding: {
+      check: judge.name,
+      action,
+      score: verdicts.length
+        ? verdicts.reduce((sum, v) => sum + v.score, 0) / verdicts.length
+        : 1,
+      claims: verdicts,
+      unsupported: verdicts.filter((v) => v.support === "unsupported").length,
+      removed,
+    },
+  };
+}
+
+// ── Factory ────────────────────────────────────────────────────────────────
+
+/**
+ * Returns the judge selected by GROUNDING_CHECK, or undefined for "none".
+ * A judge that isn't `crossLingual` needs answers in another language than
+ * the corpus translated back before it sees them.
+ */
+export function createGroundingJudge(llm: ChatProvider): GroundingJudge | undefined {
+  switch (getRagConfig().grounding.check) {
+    case "lexical":
+      return new LexicalJudge();
+    case "llm":
+      return new LLMJudge(llm);
+    case "none":
+      return undefined;
+  }
+}
@@ -0,0 +1,76 @@
+import type { DocumentLoader } from "./documentLoaders";
+import { decodeEntities, decodeUtf8 } from "./text";
+
+// Elements whose content is never document text
+const HIDDEN_ELEMENTS = /<(script|style|noscript|template|head|svg)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+// Elements that start a new paragraph
+const BLOCK_ELEMENTS =
+  /<\/?(?:p|div|section|article|main|header|footer|nav|aside|ul|ol|dl|dt|dd|blockquote|pre|figure|figcaption|form|hr|address)\b[^>]*>/gi;
+
+// ── Conversion ─────────────────────────────────────────────────────────────
+
+// Text of an inline fragment on one line: tags removed, spaces collapsed
+function inlineText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// A <table> as Markdown rows; the first row becomes the header
+function tableToMarkdown(table: string): string {
+  const rows = [...table.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr\s*>/gi)]
+    .map(([, row]) =>
+      [...row.matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]\s*>/gi)].map(([, cell]) =>
+        inlineText(cell).replace(/\|/g, "\\|")
+      )
+    )
+    .filter((cells) => cells.length > 0);
+  if (rows.length === 0) return "";
+
+  const lines = rows.map((cells) => `| ${cells.join(" | ")} |`);
+  lines.splice(1, 0, `|${" --- |".repeat(rows[0].length)}`);
+  return `\n\n${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Converts HTML (e.g. a wiki export) to Markdown-style plain text:
+ * `<h2>` becomes `## …`, list items `- …`, tables `| … |` rows, and other
+ * block elements paragraph breaks. Scripts, styles and the `<head>` are
+ * dropped.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(HIDDEN_ELEMENTS, "")
+      .replace(/<table\b[^>]*>[\s\S]*?<\/table\s*>/gi, tableToMarkdown)
+      .replace(
+        /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi,
+        (_, level: string, title: string) =>
+          `\n\n${"#".repeat(Number(level))} ${inlineText(title)}\n\n`
+      )
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(BLOCK_ELEMENTS, "\n\n")
+      .replace(/<[^>]*>/g, "")
+  )
+    .replace(/[ \t ]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ── Loader ─────────────────────────────────────────────────────────────────
+
+export const htmlLoader: DocumentLoader = {
+  format: "HTML",
+  // Served as text so an uploaded page can't run scripts on this origin
+  contentType: "text/plain; charset=utf-8",
+  accepts: (data) => !data.includes(0) && /<[a-z!]/i.test(data.subarray(0, 4096).toString("utf-8")),
+  async load(data) {
+    return { pages: [{ num: 1, text: htmlToText(decodeUtf8(data)) }], paginated: false };
+  },
+};
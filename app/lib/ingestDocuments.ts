@@ -0,0 +1,645 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { documentAccess } from "./auth";
+import { ChunkingStrategy, chunkText, DocumentChunk, embeddingText } from "./chunking";
+import { assertProvidersConfigured, getRagConfig } from "./config";
+import { DocumentPage, isSupportedDocument, loaderFor } from "./documentLoaders";
+import { chunkMetadataFor, DocumentMeta, readDocumentMeta } from "./documentMetadata";
+import { createEmbeddingProvider, EmbeddingProvider } from "./embeddings";
+import { enqueueJob, IngestJob, JobKind, waitForJob } from "./ingestQueue";
+import { KeywordIndex } from "./keywordIndex";
+import { chunksEmbedded, ingestDuration, ingestJobs } from "./metrics";
+import { QueryCache } from "./queryCache";
+import { Span, withRootSpan } from "./telemetry";
+import {
+  assertVectorStoreConfigured,
+  ChunkMetadata,
+  chunkIdPrefix,
+  getVectorStore,
+  VectorRecord,
+  VectorStore,
+} from "./vectorStore";
+
+// Absolute path to the pdfs/ folder at project root, which holds every
+// supported document type (the name predates non-PDF support)
+export const PDFS_DIR = path.join(process.cwd(), "pdfs");
+
+// JSON file that tracks which documents have already been ingested
+const TRACKER_PATH = path.join(PDFS_DIR, ".ingested.json");
+
+// Chunks to embed + upsert per vector store batch (embedding providers
+// split it further, e.g. into parallel Gemini batch requests)
+const BATCH_SIZE = 100;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface IngestedFile {
+  filename: string;
+  size: number;
+  lastModified: number;
+  /** SHA-256 of the file's bytes; decides whether it needs re-ingesting. */
+  contentHash?: string;
+  ingestedAt: string;
+  chunkCount: number;
+  /** Chunks the last ingest had to embed; the rest reused stored vectors. */
+  embeddedChunks?: number;
+  pageCount: number;
+  embeddingModel?: string;
+  dimension?: number;
+  metadata?: DocumentMeta;
+  chunking?: ChunkingStrategy;
+  /** Access labels stored on the chunks (the sidecar's, else the default). */
+  access?: string[];
+}
+
+interface TrackerData {
+  [filename: string]: IngestedFile;
+}
+
+// Character range of one page inside the joined document text
+interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+/** One chunk as the chunker would produce it, before embedding. */
+export interface ChunkPreview {
+  chunkIndex: number;
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string;
+}
+
+// A document split into chunks, with the pages each chunk spans
+interface SplitDocument {
+  pages: DocumentPage[];
+  paginated: boolean;
+  chunks: DocumentChunk[];
+  chunkPages: { pageStart: number; pageEnd: number }[];
+}
+
+// ── Tracker helpers ────────────────────────────────────────────────────────
+
+function loadTracker(): TrackerData {
+  try {
+    if (fs.existsSync(TRACKER_PATH)) {
+      return JSON.parse(fs.readFileSync(TRACKER_PATH, "utf-8")) as TrackerData;
+    }
+  } catch {
+    // Corrupted tracker — start fresh
+  }
+  return {};
+}
+
+function saveTracker(data: TrackerData): void {
+  fs.writeFileSync(TRACKER_PATH, JSON.stringify(data, null, 2), "utf-8");
+}
+
+/** Returns the list of already-ingested files from the tracker. */
+export function getIngestedFiles(): IngestedFile[] {
+  return Object.values(loadTracker());
+}
+
+// ── Page helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Joins per-page text into one string and records where each page starts
+ * and ends, so chunks can later be mapped back to their page numbers.
+ */
+function joinPages(pages: DocumentPage[]): {
+  text: string;
+  spans: PageSpan[];
+} {
+  const spans: PageSpan[] = [];
+  let text = "";
+  for (const { num, text: pageText } of pages) {
+    if (text.length > 0) text += "\n\n";
+    spans.push({ page: num, start: text.length, end: text.length + pageText.length });
+    text += pageText;
+  }
+  return { text, spans };
+}
+
+/**
+ * Finds the first and last page covered by each chunk.
+ *
+ * Chunks are located in the joined text with a forward-moving cursor
+ * (overlapping chunks start after the previous chunk's start). If a chunk
+ * can't be located verbatim, it inherits the previous chunk's pages.
+ */
+function locateChunkPages(
+  text: string,
+  chunks: string[],
+  spans: PageSpan[]
+): { pageStart: number; pageEnd: number }[] {
+  const pageAt = (offset: number) =>
+    (spans.find((s) => offset < s.end) ?? spans[spans.length - 1])?.page ?? 1;
+
+  let cursor = 0;
+  let previous = { pageStart: 1, pageEnd: 1 };
+
+  return chunks.map((chunk) => {
+    const start = text.indexOf(chunk, cursor);
+    if (start === -1) return previous;
+
+    cursor = start + 1;
+    previous = {
+      pageStart: pageAt(start),
+      pageEnd: pageAt(start + chunk.length - 1),
+    };
+    return previous;
+  });
+}
+
+// ── Chunk identity ─────────────────────────────────────────────────────────
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Vector IDs derived from what each chunk embeds, e.g.
+ * `handbook_pdf-chunk-3f9a1c0b7d2e4a68`. An unchanged chunk keeps its ID
+ * across edits elsewhere in the file, so its vector can be reused; repeated
+ * text gets a `-2`, `-3`, … suffix.
+ */
+function chunkIds(source: string, chunks: DocumentChunk[]): string[] {
+  const seen = new Map<string, number>();
+  return chunks.map((chunk) => {
+    const hash = sha256(embeddingText(chunk)).slice(0, 16);
+    const count = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, count);
+    return `${chunkIdPrefix(source)}${hash}${count > 1 ? `-${count}` : ""}`;
+  });
+}
+
+// Metadata equality, ignoring key order and `ingestedAt`
+function sameMetadata(a: ChunkMetadata, b: ChunkMetadata): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.delete("ingestedAt");
+  return [...keys].every((k) => JSON.stringify(a[k]) === JSON.stringify(b[k]));
+}
+
+// ── Shared resources ───────────────────────────────────────────────────────
+
+interface IngestResources {
+  embedder: EmbeddingProvider;
+  store: VectorStore;
+}
+
+/** Throws unless the env vars needed to embed and store vectors are set. */
+export function assertIngestConfigured(): void {
+  assertProvidersConfigured("embedding");
+  assertVectorStoreConfigured();
+}
+
+async function createResources(): Promise<IngestResources> {
+  assertIngestConfigured();
+
+  const embedder = createEmbeddingProvider();
+
+  const store = await getVectorStore();
+
+  return { embedder, store };
+}
+
+// ── Single-file ingest ─────────────────────────────────────────────────────
+
+// Extracts a document's text and splits it with `chunking`. Throws if the
+// type is unsupported or nothing is left to embed.
+async function splitDocument(
+  name: string,
+  buffer: Buffer,
+  chunking: ChunkingStrategy
+): Promise<SplitDocument> {
+  const loader = loaderFor(name);
+  if (!loader) throw new Error(`${name} is not a supported document type`);
+
+  // Extract text page by page so chunks can cite their pages
+  const { pages, paginated } = await loader.load(buffer);
+  const { text: rawText, spans } = joinPages(pages);
+
+  if (!rawText || rawText.trim().length === 0) {
+    throw new Error(`${name} has no extractable text`);
+  }
+
+  const chunks = await chunkText(rawText, chunking);
+
+  if (chunks.length === 0) {
+    throw new Error(`${name} produced zero chunks after splitting`);
+  }
+
+  const chunkPages = locateChunkPages(
+    rawText,
+    chunks.map((c) => c.text),
+    spans
+  );
+  return { pages, paginated, chunks, chunkPages };
+}
+
+async function ingestWith(
+  { embedder, store }: IngestResources,
+  name: string,
+  onProgress: (embedded: number, total: number) => void = () => {}
+): Promise<IngestedFile> {
+  const fullPath = path.join(PDFS_DIR, name);
+  const buffer = fs.readFileSync(fullPath);
+  const stats = fs.statSync(fullPath);
+  const meta = readDocumentMeta(fullPath);
+
+  // Split with the document's strategy (sidecar, else env default)
+  const chunking = chunkingFor(meta);
+  const { pages, paginated, chunks, chunkPages } = await splitDocument(name, buffer, chunking);
+
+  const ingestedAt = new Date().toISOString();
+  const records = chunkIds(name, chunks).map((id, i) => ({
+    id,
+    metadata: {
+      text: chunks[i].text,
+      source: name,
+      chunkIndex: i,
+      totalChunks: chunks.length,
+      // Markdown, HTML and most text files have no pages to cite
+      ...(paginated ? chunkPages[i] : {}),
+      ingestedAt,
+      ...(chunks[i].sectionPath ? { sectionPath: chunks[i].sectionPath } : {}),
+      ...chunkMetadataFor(meta),
+      // Always set, so the query route's access filter can match every chunk
+      access: documentAccess(meta),
+    },
+    embedText: embeddingText(chunks[i]),
+  }));
+
+  // Vectors already stored under the same chunk IDs can be reused if the
+  // tracker shows they were made by the current embedding model. Without a
+  // tracker entry (e.g. after deleting .ingested.json) everything is re-embedded.
+  const previous = loadTracker()[name];
+  const sameModel =
+    previous?.embeddingModel === embedder.modelName &&
+    previous.dimension === embedder.dimension;
+  const stored = new Map<string, VectorRecord>();
+  if (sameModel) {
+    for (const r of await store.fetch(records.map((r) => r.id))) {
+      if (r.values.length === embedder.dimension) stored.set(r.id, r);
+    }
+  }
+
+  // Unchanged chunks keep their vector; if only their metadata moved (page,
+  // index, sidecar fields) it is rewritten without calling the embedder
+  const toEmbed = records.filter((r) => !stored.has(r.id));
+  const toRewrite: VectorRecord[] = [];
+  for (const r of records) {
+    const existing = stored.get(r.id);
+    if (!existing) continue;
+    r.metadata.ingestedAt = existing.metadata.ingestedAt ?? ingestedAt;
+    if (!sameMetadata(existing.metadata, r.metadata)) {
+      toRewrite.push({ id: r.id, values: existing.values, metadata: r.metadata });
+    }
+  }
+  for (let i = 0; i < toRewrite.length; i += BATCH_SIZE) {
+    await store.upsert(toRewrite.slice(i, i + BATCH_SIZE));
+  }
+
+  // Embed + upsert new and changed chunks in batches
+  onProgress(0, toEmbed.length);
+  for (let i = 0; i < toEmbed.length; i += BATCH_SIZE) {
+    const batch = toEmbed.slice(i, i + BATCH_SIZE);
+    // Structured chunks embed with their section path prepended
+    const vectors = await embedder.embedDocuments(batch.map((r) => r.embedText));
+    await store.upsert(
+      batch.map(({ id, metadata }, j) => ({ id, values: vectors[j], metadata }))
+    );
+    onProgress(Math.min(i + BATCH_SIZE, toEmbed.length), toEmbed.length);
+  }
+
+  // Drop chunks the new version no longer has (removed or edited text)
+  const keep = new Set(records.map((r) => r.id));
+  const removed = await store.deleteBySource(name, keep);
+  if (removed > 0) {
+    console.log(`[RAG]   Removed ${removed} stale chunk(s) for ${name}`);
+  }
+
+  // Index the same chunks for keyword (BM25) search
+  KeywordIndex.open().replaceSource(
+    name,
+    records.map(({ id, metadata }) => ({ id, metadata }))
+  );
+  invalidateCachedAnswers(name);
+
+  // Persist to tracker (reloaded so concurrent updates aren't clobbered)
+  const record: IngestedFile = {
+    filename: name,
+    size: stats.size,
+    lastModified: stats.mtimeMs,
+    contentHash: sha256(buffer),
+    ingestedAt,
+    chunkCount: records.length,
+    embeddedChunks: toEmbed.length,
+    pageCount: pages.length,
+    embeddingModel: embedder.modelName,
+    dimension: embedder.dimension,
+    metadata: meta,
+    chunking,
+    access: documentAccess(meta),
+  };
+  const tracker = loadTracker();
+  tracker[name] = record;
+  saveTracker(tracker);
+
+  return record;
+}
+
+// Cached answers may quote the old version of the document
+function invalidateCachedAnswers(name: string): void {
+  const dropped = QueryCache.open().invalidateSource(name);
+  if (dropped > 0) {
+    console.log(`[RAG]   Dropped ${dropped} cached answer(s) citing ${name}`);
+  }
+}
+
+/**
+ * Ingests a single document from the pdfs/ folder, regardless of whether
+ * the tracker says it is up to date. Chunks whose vectors are already
+ * stored are reused rather than re-embedded. Throws on any failure.
+ */
+export async function ingestDocument(
+  name: string,
+  onProgress?: (embedded: number, total: number) => void
+): Promise<IngestedFile> {
+  return ingestWith(await createResources(), name, onProgress);
+}
+
+/**
+ * Removes a document from the index: deletes all of its vectors, its
+ * keyword-index entries and its tracker entry. The file on disk is left to the caller.
+ * Returns the number of vectors deleted.
+ */
+export async function removeDocumentFromIndex(name: string): Promise<number> {
+  const store = await getVectorStore();
+  const deleted = await store.deleteBySource(name);
+  KeywordIndex.open().removeSource(name);
+  invalidateCachedAnswers(name);
+
+  const tracker = loadTracker();
+  if (tracker[name]) {
+    delete tracker[name];
+    saveTracker(tracker);
+  }
+  return deleted;
+}
+
+// ── Background jobs ────────────────────────────────────────────────────────
+
+// Runs a job in its own trace and counts it in GET /api/metrics
+async function instrumentJob(
+  kind: JobKind,
+  name: string,
+  run: (span: Span) => Promise<void>
+): Promise<void> {
+  const startedAt = Date.now();
+  try {
+    await withRootSpan(`rag.${kind}`, { "rag.document": name }, run);
+    ingestJobs.inc({ kind, result: "succeeded" });
+  } catch (err) {
+    ingestJobs.inc({ kind, result: "failed" });
+    throw err;
+  } finally {
+    ingestDuration.observe({ kind }, (Date.now() - startedAt) / 1000);
+  }
+}
+
+/**
+ * Splits a document in pdfs/ the way ingestion would — with `chunking`, or
+ * its own strategy — without embedding or storing anything.
+ */
+export async function previewChunks(
+  name: string,
+  chunking?: ChunkingStrategy
+): Promise<{ chunking: ChunkingStrategy; chunks: ChunkPreview[] }> {
+  const fullPath = path.join(PDFS_DIR, name);
+  const strategy = chunking ?? chunkingFor(readDocumentMeta(fullPath));
+  const { paginated, chunks, chunkPages } = await splitDocument(
+    name,
+    fs.readFileSync(fullPath),
+    strategy
+  );
+  return {
+    chunking: strategy,
+    chunks: chunks.map((chunk, i) => ({
+      chunkIndex: i,
+      text: chunk.text,
+      ...(paginated ? chunkPages[i] : {}),
+      sectionPath: chunk.sectionPath,
+    })),
+  };
+}
+
+/** Queues a background job that (re-)ingests one document. */
+export function queueIngest(name: string): IngestJob {
+  return enqueueJob("ingest", name, (report) =>
+    instrumentJob("ingest", name, async (span) => {
+      console.log(`[RAG] ▶ Processing: ${name}`);
+      try {
+        const { chunkCount, embeddedChunks, pageCount } = await ingestDocument(name, report);
+        chunksEmbedded.inc({}, embeddedChunks);
+        Object.assign(span.attributes, {
+          "rag.chunks": chunkCount,
+          "rag.chunks_embedded": embeddedChunks,
+        });
+        console.log(
+          `[RAG] ✓ ${name}: ${chunkCount} chunks (${embeddedChunks} embedded) across ${pageCount} page(s)`
+        );
+      } catch (err) {
+        console.error(
+          `[RAG] ✗ Failed to ingest ${name}:`,
+          err instanceof Error ? err.message : err
+        );
+        throw err;
+      }
+    })
+  );
+}
+
+/** Queues a background job that removes one document's vectors and tracker entry. */
+export function queueRemoval(name: string): IngestJob {
+  return enqueueJob("remove", name, () =>
+    instrumentJob("remove", name, async (span) => {
+      try {
+        const deleted = await removeDocumentFromIndex(name);
+        span.attributes["rag.vectors_deleted"] = deleted;
+        console.log(`[RAG] ✗ ${name} was removed — deleted ${deleted} vector(s)`);
+      } catch (err) {
+        console.error(
+          `[RAG] ✗ Failed to remove vectors for ${name}:`,
+          err instanceof Error ? err.message : err
+        );
+        throw err;
+      }
+    })
+  );
+}
+
+/**
+ * Queues an ingest job and waits for it, so API-triggered ingestion is
+ * serialized with background jobs. Throws if the job fails.
+ */
+export async function ingestDocumentAndWait(name: string): Promise<IngestedFile> {
+  const job = await waitForJob(queueIngest(name).id);
+  if (job.state === "failed") throw new Error(job.error);
+  return loadTracker()[name];
+}
+
+/** Queues a removal job and waits for it. Throws if the job fails. */
+export async function removeDocumentAndWait(name: string): Promise<void> {
+  const job = await waitForJob(queueRemoval(name).id);
+  if (job.state === "failed") throw new Error(job.error);
+}
+
+// ── Main ingest function ───────────────────────────────────────────────────
+
+// The sidecar's chunking strategy, else CHUNKING_STRATEGY
+function chunkingFor(meta: DocumentMeta): ChunkingStrategy {
+  return meta.chunking ?? getRagConfig().chunking.strategy;
+}
+
+// True when the sidecar (or the default chunking strategy or access labels)
+// no longer matches what the chunks were built with. Older tracker entries
+// were chunked with the recursive splitter and have no access labels, so
+// they are re-ingested once to label their chunks. An unreadable sidecar
+// counts as changed so the job surfaces the error.
+function metadataChanged(fullPath: string, record: IngestedFile): boolean {
+  try {
+    const meta = readDocumentMeta(fullPath);
+    return (
+      JSON.stringify(meta) !== JSON.stringify(record.metadata ?? {}) ||
+      chunkingFor(meta) !== (record.chunking ?? "recursive") ||
+      JSON.stringify(documentAccess(meta)) !== JSON.stringify(record.access)
+    );
+  } catch {
+    return true;
+  }
+}
+
+// True when the file's bytes differ from what was ingested. Entries written
+// before content hashing fall back to comparing size + mtime.
+function contentChanged(fullPath: string, record: IngestedFile): boolean {
+  if (record.contentHash) {
+    return sha256(fs.readFileSync(fullPath)) !== record.contentHash;
+  }
+  const stats = fs.statSync(fullPath);
+  return record.size !== stats.size || record.lastModified !== stats.mtimeMs;
+}
+
+/**
+ * Why a file on disk needs (re-)ingesting — it is new, changed, or was
+ * embedded with another model — or undefined if its index entry is current.
+ * Older tracker entries have no embeddingModel and are assumed current.
+ */
+export function staleReason(
+  name: string,
+  record: IngestedFile | undefined
+): string | undefined {
+  if (!record) return "not ingested yet";
+  const fullPath = path.join(PDFS_DIR, name);
+  const { embedding } = getRagConfig();
+  if (
+    record.embeddingModel !== undefined &&
+    (record.embeddingModel !== embedding.model ||
+      record.dimension !== embedding.dimension)
+  ) {
+    return "embedded with another model";
+  }
+  if (metadataChanged(fullPath, record)) return "metadata changed";
+  if (!KeywordIndex.open().hasSource(name)) return "missing from the keyword index";
+  if (contentChanged(fullPath, record)) return "file changed";
+  return undefined;
+}
+
+function needsIngest(name: string, record: IngestedFile | undefined): boolean {
+  return staleReason(name, record) !== undefined;
+}
+
+/**
+ * Re-checks the given files in pdfs/ (e.g. ones the watcher saw change):
+ * queues an ingest job for each that exists and is new or changed, and a
+ * removal job for each that is gone but still tracked. Returns the jobs.
+ */
+export function syncDocuments(names: string[]): IngestJob[] {
+  const tracker = loadTracker();
+  const jobs: IngestJob[] = [];
+  for (const name of names) {
+    if (!isSupportedDocument(name)) continue;
+    if (!fs.existsSync(path.join(PDFS_DIR, name))) {
+      if (tracker[name]) jobs.push(queueRemoval(name));
+    } else if (needsIngest(name, tracker[name])) {
+      jobs.push(queueIngest(name));
+    }
+  }
+  return jobs;
+}
+
+/**
+ * Scans the pdfs/ folder and queues background jobs for any supported
+ * document (see SUPPORTED_EXTENSIONS) that is new or has changed since the
+ * last run (detected by content hash, by a different embedding
+ * model/dimension than it was indexed with, by edited `<file>.meta.json`
+ * metadata or chunking strategy, or by missing keyword-index entries),
+ * plus removal jobs for tracked files that disappeared from the folder.
+ * Returns immediately with the queued jobs; progress is visible through
+ * GET /api/ingest/jobs.
+ *
+ * Already-ingested, unchanged files are skipped, even if only their mtime
+ * changed. A changed file is diffed chunk by chunk: vector IDs hash each
+ * chunk's text (`<filename>-chunk-<hash>`), so only new or edited chunks
+ * are embedded and chunks that disappeared are deleted.
+ */
+export function ingestAllDocuments(): IngestJob[] {
+  try {
+    assertIngestConfigured();
+  } catch {
+    console.warn(
+      "[RAG] Skipping document ingestion — embedding provider or vector store credentials not set."
+    );
+    return [];
+  }
+
+  // Ensure the pdfs/ folder exists
+  if (!fs.existsSync(PDFS_DIR)) {
+    fs.mkdirSync(PDFS_DIR, { recursive: true });
+    console.log("[RAG] Created pdfs/ directory. Add documents there and restart.");
+    return [];
+  }
+
+  // Collect every file a loader can read
+  const documents = fs
+    .readdirSync(PDFS_DIR)
+    .filter(isSupportedDocument)
+    .map((name) => ({ name, fullPath: path.join(PDFS_DIR, name) }));
+
+  const tracker = loadTracker();
+
+  // Remove vectors for tracked files that were deleted from the folder
+  const onDisk = new Set(documents.map((f) => f.name));
+  const jobs = Object.keys(tracker)
+    .filter((name) => !onDisk.has(name))
+    .map((name) => queueRemoval(name));
+
+  if (documents.length === 0) {
+    console.log("[RAG] No documents found in pdfs/ — nothing to ingest.");
+    return jobs;
+  }
+
+  const toIngest = documents.filter(({ name }) => needsIngest(name, tracker[name]));
+
+  if (toIngest.length === 0) {
+    const names = documents.map((f) => f.name).join(", ");
+    console.log(`[RAG] All documents already ingested (${names}). Skipping.`);
+    return jobs;
+  }
+
+  console.log(`[RAG] Queued ${toIngest.length} document(s) for ingestion.`);
+  return [...jobs, ...toIngest.map(({ name }) => queueIngest(name))];
+}
@@ -0,0 +1,191 @@
+import { randomUUID } from "crypto";
+
+// Finished jobs kept for GET /api/ingest/jobs (oldest dropped first)
+const MAX_FINISHED_JOBS = 100;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type JobState = "queued" | "running" | "succeeded" | "failed";
+export type JobKind = "ingest" | "remove";
+
+export interface JobProgress {
+  embedded: number;
+  total: number;
+}
+
+export interface IngestJob {
+  id: string;
+  kind: JobKind;
+  filename: string;
+  state: JobState;
+  progress: JobProgress;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/** Work a job performs; call `report` as chunks are embedded. */
+export type JobRunner = (
+  report: (embedded: number, total: number) => void
+) => Promise<void>;
+
+interface JobEntry {
+  job: IngestJob;
+  run: JobRunner;
+  waiters: ((job: IngestJob) => void)[];
+}
+
+interface QueueState {
+  entries: Map<string, JobEntry>;
+  pending: string[];
+  busy: boolean;
+}
+
+// ── Store ──────────────────────────────────────────────────────────────────
+
+// Kept on globalThis so dev-mode hot reloads don't lose the queue
+const store = globalThis as unknown as { __ragIngestQueue?: QueueState };
+const queue: QueueState = (store.__ragIngestQueue ??= {
+  entries: new Map(),
+  pending: [],
+  busy: false,
+});
+
+const snapshot = (job: IngestJob): IngestJob => ({
+  ...job,
+  progress: { ...job.progress },
+});
+
+function pruneFinished(): void {
+  const finished = [...queue.entries.values()].filter(
+    (e) => e.job.state === "succeeded" || e.job.state === "failed"
+  );
+  for (const e of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    queue.entries.delete(e.job.id);
+  }
+}
+
+// ── Worker ─────────────────────────────────────────────────────────────────
+
+/** Runs queued jobs one at a time until the queue is empty. */
+async function drain(): Promise<void> {
+  if (queue.busy) return;
+  queue.busy = true;
+
+  try {
+    let id: string | undefined;
+    while ((id = queue.pending.shift())) {
+      const entry = queue.entries.get(id);
+      if (!entry || entry.job.state !== "queued") continue;
+
+      const { job } = entry;
+      job.state = "running";
+      job.attempts += 1;
+      job.startedAt = new Date().toISOString();
+      job.error = undefined;
+
+      try {
+        await entry.run((embedded, total) => {
+          job.progress = { embedded, total };
+        });
+        job.state = "succeeded";
+      } catch (err) {
+        job.state = "failed";
+        job.error = err instanceof Error ? err.message : String(err);
+      }
+
+      job.finishedAt = new Date().toISOString();
+      entry.waiters.splice(0).forEach((resolve) => resolve(snapshot(job)));
+      pruneFinished();
+    }
+  } finally {
+    queue.busy = false;
+  }
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Adds a job to the queue and starts the worker if it is idle. If the same
+ * kind of job for the same file is already waiting, that job is returned
+ * instead of queueing a duplicate.
+ */
+export function enqueueJob(
+  kind: JobKind,
+  filename: string,
+  run: JobRunner
+): IngestJob {
+  const waiting = [...queue.entries.values()].find(
+    (e) =>
+      e.job.state === "queued" &&
+      e.job.kind === kind &&
+      e.job.filename === filename
+  );
+  if (waiting) return snapshot(waiting.job);
+
+  const job: IngestJob = {
+    id: randomUUID(),
+    kind,
+    filename,
+    state: "queued",
+    progress: { embedded: 0, total: 0 },
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+  queue.entries.set(job.id, { job, run, waiters: [] });
+  queue.pending.push(job.id);
+  void drain();
+
+  return snapshot(job);
+}
+
+/** Puts a failed job back on the queue. Returns undefined if it can't be retried. */
+export function retryJob(id: string): IngestJob | undefined {
+  const entry = queue.entries.get(id);
+  if (!entry || entry.job.state !== "failed") return undefined;
+
+  entry.job.state = "queued";
+  entry.job.progress = { embedded: 0, total: 0 };
+  entry.job.finishedAt = undefined;
+  queue.pending.push(id);
+  void drain();
+
+  return snapshot(entry.job);
+}
+
+/** Retries every failed job whose file has no newer job. */
+export function retryFailedJobs(): IngestJob[] {
+  const latest = new Map<string, IngestJob>();
+  for (const { job } of queue.entries.values()) latest.set(job.filename, job);
+
+  return [...latest.values()]
+    .filter((job) => job.state === "failed")
+    .map((job) => retryJob(job.id))
+    .filter((job): job is IngestJob => job !== undefined);
+}
+
+/** Resolves with the job's final state once it succeeds or fails. */
+export function waitForJob(id: string): Promise<IngestJob> {
+  const entry = queue.entries.get(id);
+  if (!entry) return Promise.reject(new Error(`Unknown job ${id}`));
+
+  const { state } = entry.job;
+  if (state === "succeeded" || state === "failed") {
+    return Promise.resolve(snapshot(entry.job));
+  }
+  return new Promise((resolve) => entry.waiters.push(resolve));
+}
+
+/** All known jobs, oldest first. */
+export function listJobs(): IngestJob[] {
+  return [...queue.entries.values()].map((e) => snapshot(e.job));
+}
+
+/** The most recently created job for a file, if any. */
+export function latestJobFor(filename: string): IngestJob | undefined {
+  return listJobs()
+    .filter((job) => job.filename === filename)
+    .pop();
+}
@@ -0,0 +1,201 @@
+// Limits on caller-supplied schemas, so one request can't send the model
+// (or the validator) something enormous
+const MAX_SCHEMA_DEPTH = 6;
+const MAX_SCHEMA_PROPERTIES = 50;
+
+export const JSON_SCHEMA_TYPES = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "array",
+  "object",
+] as const;
+
+// Keywords of the subset; anything else is rejected rather than ignored
+const ALLOWED_KEYWORDS = new Set([
+  "type",
+  "description",
+  "nullable",
+  "enum",
+  "properties",
+  "required",
+  "items",
+  "minItems",
+  "maxItems",
+]);
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type JsonSchemaType = (typeof JSON_SCHEMA_TYPES)[number];
+
+/**
+ * The subset of JSON Schema (as an OpenAPI 3.0 schema object) that
+ * Gemini's `responseSchema` accepts and every provider can be held to:
+ * typed values, object properties, arrays with item counts and string enums.
+ */
+export interface JsonSchema {
+  type: JsonSchemaType;
+  description?: string;
+  /** The value may also be null. */
+  nullable?: boolean;
+  /** Allowed values (strings only). */
+  enum?: string[];
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+// ── Schema parsing ─────────────────────────────────────────────────────────
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+function checkSchema(
+  input: unknown,
+  path: string,
+  depth: number,
+  count: { properties: number }
+): string | undefined {
+  if (!isObject(input)) return `${path} must be a schema object`;
+  if (depth > MAX_SCHEMA_DEPTH) return `${path} is nested more than ${MAX_SCHEMA_DEPTH} levels deep`;
+
+  const unknown = Object.keys(input).filter((k) => !ALLOWED_KEYWORDS.has(k));
+  if (unknown.length > 0) {
+    return `${path} uses unsupported keyword(s) ${unknown.join(", ")}; use ${[...ALLOWED_KEYWORDS].join(", ")}`;
+  }
+
+  const { type } = input;
+  if (!(JSON_SCHEMA_TYPES as readonly unknown[]).includes(type)) {
+    return `${path}.type must be one of ${JSON_SCHEMA_TYPES.join(", ")}`;
+  }
+  if (input.description !== undefined && typeof input.description !== "string") {
+    return `${path}.description must be a string`;
+  }
+  if (input.nullable !== undefined && typeof input.nullable !== "boolean") {
+    return `${path}.nullable must be a boolean`;
+  }
+
+  if (input.enum !== undefined) {
+    if (
+      type !== "string" ||
+      !Array.isArray(input.enum) ||
+      input.enum.length === 0 ||
+      !input.enum.every((v) => typeof v === "string")
+    ) {
+      return `${path}.enum must be a non-empty list of strings on a string schema`;
+    }
+  }
+
+  if (type === "object") {
+    if (!isObject(input.properties) || Object.keys(input.properties).length === 0) {
+      return `${path}.properties must name at least one property`;
+    }
+    count.properties += Object.keys(input.properties).length;
+    if (count.properties > MAX_SCHEMA_PROPERTIES) {
+      return `The schema has more than ${MAX_SCHEMA_PROPERTIES} properties`;
+    }
+    for (const [name, property] of Object.entries(input.properties)) {
+      const error = checkSchema(property, `${path}.properties.${name}`, depth + 1, count);
+      if (error) return error;
+    }
+    if (input.required !== undefined) {
+      const props = input.properties;
+      if (
+        !Array.isArray(input.required) ||
+        !input.required.every((r) => typeof r === "string" && Object.hasOwn(props, r))
+      ) {
+        return `${path}.required must list names from ${path}.properties`;
+      }
+    }
+  } else if (input.properties !== undefined || input.required !== undefined) {
+    return `${path} has properties but is not of type object`;
+  }
+
+  if (type === "array") {
+    const error = checkSchema(input.items, `${path}.items`, depth + 1, count);
+    if (error) return error;
+    for (const key of ["minItems", "maxItems"] as const) {
+      if (input[key] !== undefined && !isCount(input[key])) {
+        return `${path}.${key} must be a non-negative integer`;
+      }
+    }
+  } else if (
+    input.items !== undefined ||
+    input.minItems !== undefined ||
+    input.maxItems !== undefined
+  ) {
+    return `${path} has items but is not of type array`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates a caller-supplied schema: an object schema built only from the
+ * supported subset, at most MAX_SCHEMA_DEPTH levels and
+ * MAX_SCHEMA_PROPERTIES properties.
+ */
+export function parseJsonSchema(
+  input: unknown,
+  name = "schema"
+): { schema: JsonSchema } | { error: string } {
+  const error = checkSchema(input, name, 1, { properties: 0 });
+  if (error) return { error };
+  if ((input as JsonSchema).type !== "object") return { error: `${name}.type must be "object"` };
+  return { schema: input as JsonSchema };
+}
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+/**
+ * Checks `value` against `schema`. Returns one message per problem, each
+ * naming where it is (e.g. `$.steps[2].citations`); empty when it conforms.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  if (value === null) return schema.nullable ? [] : [`${path} must not be null`];
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.join(", ")}`];
+      }
+      return [];
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? [] : [`${path} must be a number`];
+    case "integer":
+      return Number.isInteger(value) ? [] : [`${path} must be an integer`];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path} must be a boolean`];
+    case "array": {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path} must have at least ${schema.minItems} item(s)`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push(`${path} must have at most ${schema.maxItems} item(s)`);
+      }
+      value.forEach((item, i) => issues.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+      return issues;
+    }
+    case "object": {
+      if (!isObject(value)) return [`${path} must be an object`];
+      const properties = schema.properties ?? {};
+      const issues = (schema.required ?? [])
+        .filter((name) => !Object.hasOwn(value, name))
+        .map((name) => `${path}.${name} is required`);
+      for (const [name, item] of Object.entries(value)) {
+        const property = Object.hasOwn(properties, name) ? properties[name] : undefined;
+        if (!property) issues.push(`${path}.${name} is not in the schema`);
+        else issues.push(...validateJson(item, property, `${path}.${name}`));
+      }
+      return issues;
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import fs from "fs";
+import path from "path";
+import { tokenize } from "./text";
+import {
+  ChunkMetadata,
+  matchesFilter,
+  MetadataFilter,
+  VectorMatch,
+} from "./vectorStore";
+
+// Default location of the on-disk index (override with KEYWORD_INDEX_PATH)
+const DEFAULT_INDEX_PATH = path.join(process.cwd(), ".vectors", "keywords.json");
+
+// BM25 parameters: term-frequency saturation and document-length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface KeywordChunk {
+  id: string;
+  metadata: ChunkMetadata;
+}
+
+interface IndexedChunk {
+  metadata: ChunkMetadata;
+  length: number;
+  terms: { [term: string]: number };
+}
+
+interface IndexFile {
+  chunks: { [id: string]: IndexedChunk };
+}
+
+// One in-memory copy per file, kept across dev-mode hot reloads
+const store = globalThis as unknown as {
+  __ragKeywordIndexes?: Map<string, KeywordIndex>;
+};
+const openIndexes = (store.__ragKeywordIndexes ??= new Map());
+
+// ── Index ──────────────────────────────────────────────────────────────────
+
+/**
+ * BM25 keyword index over the same chunks that are embedded, persisted as
+ * a single JSON file. Complements vector search for exact terms that
+ * embeddings blur: clause numbers ("4.2"), form codes ("HR-07"), acronyms
+ * and names. Tokens come from `tokenize`, so such codes stay whole.
+ */
+export class KeywordIndex {
+  private data: IndexFile;
+  // term → (chunk id → term frequency), rebuilt from `data` on load
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  private constructor(private filePath: string) {
+    this.data = { chunks: {} };
+    try {
+      if (fs.existsSync(filePath)) {
+        this.data = JSON.parse(fs.readFileSync(filePath, "utf-8")) as IndexFile;
+      }
+    } catch {
+      // Corrupted index — start fresh; ingestAllDocuments re-indexes missing files
+      console.warn(`[RAG] Could not read ${filePath} — starting with an empty keyword index.`);
+    }
+    for (const [id, chunk] of Object.entries(this.data.chunks)) {
+      this.addPostings(id, chunk);
+    }
+  }
+
+  /** Opens (or reuses) the index at KEYWORD_INDEX_PATH. */
+  static open(
+    filePath = process.env.KEYWORD_INDEX_PATH || DEFAULT_INDEX_PATH
+  ): KeywordIndex {
+    let instance = openIndexes.get(filePath);
+    if (!instance) {
+      instance = new KeywordIndex(filePath);
+      openIndexes.set(filePath, instance);
+    }
+    return instance;
+  }
+
+  /** Writes via a temp file + rename so a crash never leaves half a file. */
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data), "utf-8");
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private addPostings(id: string, chunk: IndexedChunk): void {
+    for (const [term, tf] of Object.entries(chunk.terms)) {
+      let posting = this.postings.get(term);
+      if (!posting) this.postings.set(term, (posting = new Map()));
+      posting.set(id, tf);
+    }
+    this.totalLength += chunk.length;
+  }
+
+  private removeChunk(id: string): void {
+    const chunk = this.data.chunks[id];
+    if (!chunk) return;
+    for (const term of Object.keys(chunk.terms)) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= chunk.length;
+    delete this.data.chunks[id];
+  }
+
+  /** Replaces every indexed chunk of `source` with `chunks`. */
+  replaceSource(source: string, chunks: KeywordChunk[]): void {
+    for (const [id, chunk] of Object.entries(this.data.chunks)) {
+      if (chunk.metadata.source === source) this.removeChunk(id);
+    }
+
+    for (const { id, metadata } of chunks) {
+      // Headings count too, so "encashment" finds chunks under "3.1 Leave Encashment"
+      const tokens = tokenize(`${metadata.sectionPath ?? ""}\n${metadata.text}`);
+      const terms: IndexedChunk["terms"] = {};
+      for (const t of tokens) terms[t] = (terms[t] ?? 0) + 1;
+
+      const chunk: IndexedChunk = { metadata, length: tokens.length, terms };
+      this.removeChunk(id);
+      this.data.chunks[id] = chunk;
+      this.addPostings(id, chunk);
+    }
+    this.persist();
+  }
+
+  /** Drops every chunk of `source`. Returns the number removed. */
+  removeSource(source: string): number {
+    let removed = 0;
+    for (const [id, chunk] of Object.entries(this.data.chunks)) {
+      if (chunk.metadata.source === source) {
+        this.removeChunk(id);
+        removed++;
+      }
+    }
+    if (removed > 0) this.persist();
+    return removed;
+  }
+
+  /** Whether any chunk of `source` is indexed. */
+  hasSource(source: string): boolean {
+    return Object.values(this.data.chunks).some(
+      (c) => c.metadata.source === source
+    );
+  }
+
+  /** Number of indexed chunks of `source`. */
+  countSource(source: string): number {
+    return Object.values(this.data.chunks).filter((c) => c.metadata.source === source).length;
+  }
+
+  /** Number of indexed chunks. */
+  get size(): number {
+    return Object.keys(this.data.chunks).length;
+  }
+
+  /**
+   * Scores chunks against `query` with Okapi BM25 and returns the best
+   * `topK`, highest score first. Chunks sharing no terms are omitted.
+   */
+  search(query: string, topK: number, filter?: MetadataFilter): VectorMatch[] {
+    const total = this.size;
+    if (total === 0) return [];
+    const avgLength = this.totalLength / total || 1;
+
+    const scores = new Map<string, number>();
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, tf] of posting) {
+        const length = this.data.chunks[id].length;
+        const weight =
+          (tf * (BM25_K1 + 1)) /
+          (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / avgLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * weight);
+      }
+    }
+
+    const matches: VectorMatch[] = [];
+    for (const [id, score] of scores) {
+      const { metadata } = this.data.chunks[id];
+      if (matchesFilter(metadata, filter)) matches.push({ id, score, metadata });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
@@ -0,0 +1,223 @@
+import type { ChatProvider } from "./chat";
+import { getRagConfig } from "./config";
+import { tokenize } from "./text";
+
+// Language tags a request or the LLM detector may name: "hi", "pt-BR", "hi-Latn"
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(?:-[A-Za-z]{2,4})?$/;
+
+// Questions are mostly short; below this many letters a script can't be told apart from noise
+const MIN_SCRIPT_LETTERS = 2;
+
+// Common words that mark a Latin-script question as a given language. The
+// language with the most wins if it has at least MIN_WORD_HITS.
+const MIN_WORD_HITS = 2;
+
+const LATIN_WORDS: Record<string, string[]> = {
+  en: [
+    "the", "a", "an", "is", "are", "am", "do", "does", "i", "my", "we", "what", "how",
+    "many", "much", "can", "will", "have", "for", "of", "to", "in", "on", "when", "get",
+  ],
+  // Hindi typed in Latin script ("Hinglish"), as many staff write it
+  "hi-Latn": [
+    "kya", "hai", "hain", "mujhe", "mera", "meri", "kitni", "kitne", "kaise", "kab",
+    "kahan", "ke", "ki", "ka", "ko", "mein", "nahi", "milti", "milta", "milega",
+    "karna", "kar", "sakta", "sakti", "liye", "agar", "aur", "bhi",
+  ],
+  es: [
+    "el", "los", "las", "es", "son", "cuántos", "cuántas", "cómo", "qué", "puedo",
+    "tengo", "mi", "por", "del", "cuando", "hay",
+  ],
+  fr: [
+    "le", "les", "est", "sont", "combien", "comment", "quel", "quelle", "je", "mon",
+    "mes", "pour", "des", "du", "puis", "ai",
+  ],
+  de: [
+    "der", "die", "das", "ist", "sind", "wie", "viele", "was", "ich", "mein", "meine",
+    "habe", "kann", "für", "und", "nicht",
+  ],
+  pt: [
+    "os", "é", "são", "quantos", "quantas", "como", "qual", "eu", "tenho", "meu",
+    "minha", "posso", "não", "quando",
+  ],
+};
+
+// Unicode scripts with the language a question in them is taken to be in
+// (Devanagari is also Marathi and Nepali; the LLM detector tells those apart)
+const SCRIPTS: { code: string; pattern: RegExp }[] = [
+  { code: "hi", pattern: /\p{Script=Devanagari}/gu },
+  { code: "bn", pattern: /\p{Script=Bengali}/gu },
+  { code: "pa", pattern: /\p{Script=Gurmukhi}/gu },
+  { code: "gu", pattern: /\p{Script=Gujarati}/gu },
+  { code: "or", pattern: /\p{Script=Oriya}/gu },
+  { code: "ta", pattern: /\p{Script=Tamil}/gu },
+  { code: "te", pattern: /\p{Script=Telugu}/gu },
+  { code: "kn", pattern: /\p{Script=Kannada}/gu },
+  { code: "ml", pattern: /\p{Script=Malayalam}/gu },
+  { code: "ar", pattern: /\p{Script=Arabic}/gu },
+  { code: "he", pattern: /\p{Script=Hebrew}/gu },
+  { code: "ru", pattern: /\p{Script=Cyrillic}/gu },
+  { code: "el", pattern: /\p{Script=Greek}/gu },
+  { code: "th", pattern: /\p{Script=Thai}/gu },
+  { code: "ko", pattern: /\p{Script=Hangul}/gu },
+  { code: "ja", pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { code: "zh", pattern: /\p{Script=Han}/gu },
+];
+
+// Letters only Urdu (not Arabic) uses
+const URDU_LETTERS = /[ٹڈڑںےۓھ]/;
+
+// Names Intl.DisplayNames doesn't give the way staff would put it
+const LANGUAGE_NAMES: Record<string, string> = {
+  "hi-Latn": "Hindi written in Latin script (Hinglish)",
+};
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * How a question's language was decided: its script, its common words,
+ * the chat model, the request's `language`, or nothing (the corpus language).
+ */
+export type LanguageSource = "script" | "words" | "llm" | "request" | "default";
+
+/** Reported with every answer. */
+export interface QuestionLanguage {
+  /** BCP 47 tag, e.g. "hi", or "hi-Latn" for romanized Hindi. */
+  code: string;
+  /** English name, e.g. "Hindi". */
+  name: string;
+  detectedBy: LanguageSource;
+}
+
+// ── Names ──────────────────────────────────────────────────────────────────
+
+const displayNames = new Intl.DisplayNames(["en"], { type: "language", fallback: "code" });
+
+/** English name of a language tag, e.g. "hi" → "Hindi". */
+export function languageName(code: string): string {
+  if (LANGUAGE_NAMES[code]) return LANGUAGE_NAMES[code];
+  try {
+    return displayNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/** True when text in `code` can be searched against the corpus as it is. */
+export function isCorpusLanguage(code: string): boolean {
+  const corpus = getRagConfig().language.corpus;
+  return code === corpus || (code.split("-")[0] === corpus && !code.endsWith("-Latn"));
+}
+
+// ── Detection ──────────────────────────────────────────────────────────────
+
+/**
+ * Local detector: the dominant non-Latin script decides (Arabic script with
+ * Urdu-only letters is Urdu); Latin text goes to the language whose common
+ * words it uses most. Undecided questions are in the corpus language.
+ */
+export function detectLanguageLocally(text: string): QuestionLanguage {
+  const latin = text.match(/\p{Script=Latin}/gu)?.length ?? 0;
+
+  let best = { code: "", letters: 0 };
+  for (const { code, pattern } of SCRIPTS) {
+    const letters = text.match(pattern)?.length ?? 0;
+    if (letters > best.letters) best = { code, letters };
+  }
+  // Kana mixed with Han is Japanese
+  if (best.code === "zh" && /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) {
+    best.code = "ja";
+  }
+  if (best.code === "ar" && URDU_LETTERS.test(text)) best.code = "ur";
+
+  // Policy terms are often typed in English inside, say, a Hindi question,
+  // so a script needs only a third of the letters
+  if (best.letters >= MIN_SCRIPT_LETTERS && best.letters * 2 >= latin) {
+    return { code: best.code, name: languageName(best.code), detectedBy: "script" };
+  }
+
+  const words = tokenize(text, true);
+  const hits = Object.entries(LATIN_WORDS).map(([code, list]) => ({
+    code,
+    count: words.filter((w) => list.includes(w)).length,
+  }));
+  // Ties go to English, which is listed first
+  const top = hits.reduce((a, b) => (b.count > a.count ? b : a));
+  if (top.count >= MIN_WORD_HITS) {
+    return { code: top.code, name: languageName(top.code), detectedBy: "words" };
+  }
+
+  const corpus = getRagConfig().language.corpus;
+  return { code: corpus, name: languageName(corpus), detectedBy: "default" };
+}
+
+/**
+ * Asks the chat model for the question's language tag. Falls back to the
+ * local detector if the reply isn't a tag.
+ */
+async function detectLanguageWithLLM(llm: ChatProvider, text: string): Promise<QuestionLanguage> {
+  const prompt = `Which language is the question below written in? Reply with its BCP 47 language tag only, \
+e.g. "en", "hi" or "ta". If it is Hindi written in Latin letters (Hinglish), reply "hi-Latn".
+
+Question: ${text}
+
+Language tag:`;
+
+  try {
+    const { text: reply } = await llm.generate(prompt, { temperature: 0 });
+    const code = reply.trim().replace(/^["'`]|["'`.]$/g, "");
+    if (!LANGUAGE_CODE_PATTERN.test(code)) {
+      throw new Error(`"${reply.trim().slice(0, 40)}" is not a language tag`);
+    }
+    return { code, name: languageName(code), detectedBy: "llm" };
+  } catch (err) {
+    console.warn(
+      "[RAG] LLM language detection failed — falling back to the local detector:",
+      err instanceof Error ? err.message : err
+    );
+    return detectLanguageLocally(text);
+  }
+}
+
+/**
+ * The language a question is written in, by LANGUAGE_DETECTION: "local"
+ * (scripts and common words), "llm" (one chat call) or "none" (always the
+ * corpus language).
+ */
+export async function detectLanguage(llm: ChatProvider, text: string): Promise<QuestionLanguage> {
+  const { corpus, detection } = getRagConfig().language;
+  switch (detection) {
+    case "local":
+      return detectLanguageLocally(text);
+    case "llm":
+      return detectLanguageWithLLM(llm, text);
+    case "none":
+      return { code: corpus, name: languageName(corpus), detectedBy: "default" };
+  }
+}
+
+// ── Translation ────────────────────────────────────────────────────────────
+
+/**
+ * Translates `text` from one language to another with the chat model,
+ * keeping names, numbers, acronyms, [n] markers and [unverified] flags.
+ * Returns the text unchanged if the model replies with nothing.
+ */
+export async function translate(
+  llm: ChatProvider,
+  text: string,
+  from: string,
+  to: string
+): Promise<string> {
+  const prompt = `Translate the text below from ${languageName(from)} into ${languageName(to)}. \
+Keep names, numbers, acronyms, policy terms and bracketed markers such as [2] or [unverified] exactly as they are. \
+If it is a question, translate it as a question for searching company policy documents. \
+Reply with the translation only.
+
+Text:
+${text}
+
+Translation:`;
+
+  const { text: translated } = await llm.generate(prompt, { temperature: 0 });
+  return translated.trim().replace(/^"|"$/g, "") || text;
+}
@@ -0,0 +1,185 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { ACCESS_LABEL_PATTERN } from "./documentMetadata";
+import type { AuthProvider, AuthUser, Session } from "./auth";
+
+/** Cookie holding the session token after signing in through the UI. */
+export const SESSION_COOKIE = "rag_session";
+
+// Default location of the users file (override with AUTH_USERS_PATH)
+const DEFAULT_USERS_PATH = path.join(process.cwd(), ".data", "users.json");
+
+// scrypt output length; must match scripts/users.mjs
+const KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** One entry of the users file. */
+interface StoredUser {
+  username: string;
+  name?: string;
+  /** `scrypt$<salt hex>$<key hex>`, as written by `npm run users`. */
+  passwordHash: string;
+  roles: string[];
+}
+
+interface TokenClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+// ── Users file ─────────────────────────────────────────────────────────────
+
+function usersPath(): string {
+  return process.env.AUTH_USERS_PATH || DEFAULT_USERS_PATH;
+}
+
+// Re-read only when the file changes, so edits apply without a restart
+const store = globalThis as unknown as {
+  __ragUsers?: { path: string; mtimeMs: number; users: Map<string, StoredUser> };
+};
+
+function loadUsers(): Map<string, StoredUser> {
+  const file = usersPath();
+  if (!fs.existsSync(file)) {
+    throw new Error(`No users file at ${file} — add a user with "npm run users -- add <username>"`);
+  }
+  const { mtimeMs } = fs.statSync(file);
+  const cached = store.__ragUsers;
+  if (cached?.path === file && cached.mtimeMs === mtimeMs) return cached.users;
+
+  let raw: { users?: StoredUser[] };
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    throw new Error(`${file} is not valid JSON`);
+  }
+
+  const users = new Map<string, StoredUser>();
+  for (const [i, u] of (raw.users ?? []).entries()) {
+    if (
+      typeof u.username !== "string" ||
+      typeof u.passwordHash !== "string" ||
+      !Array.isArray(u.roles) ||
+      u.roles.length === 0 ||
+      !u.roles.every((r) => typeof r === "string" && ACCESS_LABEL_PATTERN.test(r))
+    ) {
+      throw new Error(`${file}: users[${i}] needs a username, passwordHash and at least one valid role`);
+    }
+    users.set(u.username, u);
+  }
+  store.__ragUsers = { path: file, mtimeMs, users };
+  return users;
+}
+
+const toAuthUser = (u: StoredUser): AuthUser => ({
+  username: u.username,
+  name: u.name || u.username,
+  roles: u.roles,
+});
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, key] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// ── Tokens ─────────────────────────────────────────────────────────────────
+
+// Bearer token from the Authorization header, else the session cookie
+// (a cookie that isn't valid percent-encoding counts as no cookie)
+function requestToken(req: Request): string | undefined {
+  const header = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  if (header) return header[1];
+  const cookie = (req.headers.get("cookie") ?? "")
+    .split(";")
+    .map((c) => c.trim())
+    .find((c) => c.startsWith(`${SESSION_COOKIE}=`));
+  if (!cookie) return undefined;
+  try {
+    return decodeURIComponent(cookie.slice(SESSION_COOKIE.length + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+const base64url = (data: Buffer | string) => Buffer.from(data).toString("base64url");
+
+// HS256 JWT; the payload names the user, whose roles are looked up per request
+function signToken(claims: TokenClaims, secret: string): string {
+  const body = `${base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))}.${base64url(
+    JSON.stringify(claims)
+  )}`;
+  return `${body}.${createHmac("sha256", secret).update(body).digest("base64url")}`;
+}
+
+function verifyToken(token: string, secret: string): TokenClaims | undefined {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return undefined;
+
+  const expected = createHmac("sha256", secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+
+  try {
+    if (JSON.parse(Buffer.from(header, "base64url").toString()).alg !== "HS256") return undefined;
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as TokenClaims;
+    return typeof claims.sub === "string" && claims.exp * 1000 > Date.now() ? claims : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ── Provider ───────────────────────────────────────────────────────────────
+
+/**
+ * Username/password sign-in against a local users file (AUTH_USERS_PATH,
+ * default .data/users.json, managed with `npm run users`). Passwords are
+ * stored as scrypt hashes; sessions are HS256 JWTs signed with
+ * AUTH_JWT_SECRET. Roles are read from the file on every request, so
+ * removing a user or a role takes effect immediately.
+ */
+export class LocalAuthProvider implements AuthProvider {
+  readonly name = "local";
+
+  constructor(
+    private secret: string,
+    private ttlSeconds: number
+  ) {}
+
+  async authenticate(req: Request): Promise<AuthUser | undefined> {
+    const token = requestToken(req);
+    const claims = token ? verifyToken(token, this.secret) : undefined;
+    const user = claims ? loadUsers().get(claims.sub) : undefined;
+    return user ? toAuthUser(user) : undefined;
+  }
+
+  async login(username: string, password: string): Promise<Session | undefined> {
+    const user = loadUsers().get(username);
+    // Hash anyway for unknown users so response times don't reveal who exists
+    const valid = await verifyPassword(
+      password,
+      user?.passwordHash ?? `scrypt$${randomBytes(16).toString("hex")}$${"0".repeat(KEY_LENGTH * 2)}`
+    );
+    if (!user || !valid) return undefined;
+
+    const now = Math.floor(Date.now() / 1000);
+    const exp = now + this.ttlSeconds;
+    return {
+      token: signToken({ sub: user.username, iat: now, exp }, this.secret),
+      user: toAuthUser(user),
+      expiresAt: new Date(exp * 1000).toISOString(),
+    };
+  }
+}
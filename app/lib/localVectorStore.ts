@@ -0,0 +1,162 @@
+import fs from "fs";
+import path from "path";
+import {
+  ChunkMetadata,
+  matchesFilter,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from "./vectorStore";
+
+// Default location of the on-disk index (override with LOCAL_VECTOR_STORE_PATH)
+const DEFAULT_STORE_PATH = path.join(process.cwd(), ".vectors", "store.json");
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+interface StoredRecord {
+  values: number[];
+  norm: number;
+  metadata: ChunkMetadata;
+}
+
+interface StoreFile {
+  dimension?: number;
+  records: { [id: string]: StoredRecord };
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function norm(values: number[]): number {
+  let sum = 0;
+  for (const v of values) sum += v * v;
+  return Math.sqrt(sum);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// One in-memory copy per file, kept across dev-mode hot reloads
+const store = globalThis as unknown as {
+  __ragLocalStores?: Map<string, LocalVectorStore>;
+};
+const openStores = (store.__ragLocalStores ??= new Map());
+
+// ── Store ──────────────────────────────────────────────────────────────────
+
+/**
+ * Offline VectorStore kept in memory and persisted as a single JSON file.
+ * Queries are brute-force cosine similarity over every record, which is
+ * plenty fast for a few thousand policy chunks.
+ */
+export class LocalVectorStore implements VectorStore {
+  private data: StoreFile;
+
+  private constructor(private filePath: string) {
+    this.data = { records: {} };
+    try {
+      if (fs.existsSync(filePath)) {
+        this.data = JSON.parse(fs.readFileSync(filePath, "utf-8")) as StoreFile;
+      }
+    } catch {
+      // Corrupted store — start fresh (the tracker will need resetting too)
+      console.warn(`[RAG] Could not read ${filePath} — starting with an empty local store.`);
+    }
+  }
+
+  /** Opens (or reuses) the store at LOCAL_VECTOR_STORE_PATH. */
+  static open(
+    filePath = process.env.LOCAL_VECTOR_STORE_PATH || DEFAULT_STORE_PATH
+  ): LocalVectorStore {
+    let instance = openStores.get(filePath);
+    if (!instance) {
+      instance = new LocalVectorStore(filePath);
+      openStores.set(filePath, instance);
+    }
+    return instance;
+  }
+
+  /** Writes via a temp file + rename so a crash never leaves half a file. */
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data), "utf-8");
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    for (const r of records) {
+      this.data.dimension ??= r.values.length;
+      if (r.values.length !== this.data.dimension) {
+        throw new Error(
+          `Vector dimension ${r.values.length} does not match local store dimension ${this.data.dimension}`
+        );
+      }
+      this.data.records[r.id] = {
+        values: r.values,
+        norm: norm(r.values),
+        metadata: r.metadata,
+      };
+    }
+    this.persist();
+  }
+
+  async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+    const queryNorm = norm(vector);
+    if (queryNorm === 0) return [];
+
+    const matches: VectorMatch[] = [];
+    for (const [id, r] of Object.entries(this.data.records)) {
+      if (!matchesFilter(r.metadata, filter) || r.norm === 0) continue;
+      matches.push({
+        id,
+        score: dot(vector, r.values) / (queryNorm * r.norm),
+        metadata: r.metadata,
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  async fetch(ids: string[]): Promise<VectorRecord[]> {
+    return ids.flatMap((id) => {
+      const r = this.data.records[id];
+      return r ? [{ id, values: r.values, metadata: r.metadata }] : [];
+    });
+  }
+
+  async listBySource(source: string): Promise<VectorRecord[]> {
+    return Object.entries(this.data.records)
+      .filter(([, r]) => r.metadata.source === source)
+      .map(([id, r]) => ({ id, values: r.values, metadata: r.metadata }));
+  }
+
+  async deleteBySource(
+    source: string,
+    keep: Set<string> = new Set()
+  ): Promise<number> {
+    let deleted = 0;
+    for (const [id, r] of Object.entries(this.data.records)) {
+      if (r.metadata.source === source && !keep.has(id)) {
+        delete this.data.records[id];
+        deleted++;
+      }
+    }
+    if (deleted > 0) this.persist();
+    return deleted;
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    return {
+      backend: "local",
+      dimension: this.data.dimension,
+      totalVectors: Object.keys(this.data.records).length,
+    };
+  }
+}
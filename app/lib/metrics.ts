@@ -0,0 +1,233 @@
+// Upper bounds (seconds) of the latency histogram buckets
+const QUERY_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const INGEST_BUCKETS = [0.1, 0.5, 1, 5, 10, 30, 60, 120, 300, 600];
+
+// Upper bounds of the groundedness (0–1) histogram buckets
+const GROUNDEDNESS_BUCKETS = [0.1, 0.25, 0.5, 0.75, 0.9, 1];
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type Labels = Record<string, string>;
+
+interface Series<T> {
+  labels: Labels;
+  value: T;
+}
+
+interface HistogramValue {
+  /** Observations per bucket (not cumulative), plus one for +Inf. */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+// ── Metric kinds ───────────────────────────────────────────────────────────
+
+// Series are keyed by their labels in a fixed order
+const seriesKey = (labels: Labels) =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+abstract class Metric<T> {
+  protected series = new Map<string, Series<T>>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  protected entry(labels: Labels, initial: () => T): Series<T> {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  protected abstract samples(): string[];
+
+  /** This metric in the Prometheus text exposition format. */
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join("\n");
+  }
+}
+
+/** A value that only goes up, e.g. requests served. */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map((s) => `${this.name}${formatLabels(s.labels)} ${s.value}`);
+  }
+}
+
+/** A value that is set to whatever it currently is, e.g. queue length. */
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map((s) => `${this.name}${formatLabels(s.labels)} ${s.value}`);
+  }
+}
+
+/** Counts observations (e.g. latencies) into cumulative buckets. */
+export class Histogram extends Metric<HistogramValue> {
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.entry(labels, () => ({
+      counts: new Array(this.buckets.length + 1).fill(0),
+      sum: 0,
+      count: 0,
+    }));
+    const bucket = this.buckets.findIndex((le) => value <= le);
+    series.value.counts[bucket === -1 ? this.buckets.length : bucket]++;
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => {
+      let cumulative = 0;
+      const bounds = [...this.buckets.map(String), "+Inf"];
+      return [
+        ...bounds.map((le, i) => {
+          cumulative += value.counts[i];
+          return `${this.name}_bucket${formatLabels({ ...labels, le })} ${cumulative}`;
+        }),
+        `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+        `${this.name}_count${formatLabels(labels)} ${value.count}`,
+      ];
+    });
+  }
+}
+
+// ── Registry ───────────────────────────────────────────────────────────────
+
+// Kept on globalThis so the query route, ingest jobs started from
+// instrumentation.ts and GET /api/metrics all count into the same series
+const store = globalThis as unknown as {
+  __ragMetrics?: Map<string, { name: string; render(): string }>;
+};
+const registry = (store.__ragMetrics ??= new Map());
+
+// Returns the metric already registered under the same name (from before a
+// hot reload), else registers this one
+function register<M extends { name: string; render(): string }>(metric: M): M {
+  const existing = registry.get(metric.name) as M | undefined;
+  if (existing) return existing;
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+/** Every registered metric in the Prometheus text exposition format. */
+export function renderMetrics(): string {
+  return `${[...registry.values()].map((m) => m.render()).join("\n\n")}\n`;
+}
+
+// ── Metrics ────────────────────────────────────────────────────────────────
+
+/** Queries by outcome (answered, not_covered, no_content, invalid, error) and stream. */
+export const queryRequests = register(
+  new Counter("rag_query_requests_total", "Questions received by POST /api/query.")
+);
+
+export const queryDuration = register(
+  new Histogram(
+    "rag_query_duration_seconds",
+    "End-to-end latency of POST /api/query, by outcome.",
+    QUERY_BUCKETS
+  )
+);
+
+/** Latency of one pipeline stage: rewrite, translate, embed, retrieve, rerank, generate or verify. */
+export const queryStageDuration = register(
+  new Histogram(
+    "rag_query_stage_duration_seconds",
+    "Latency of each query pipeline stage.",
+    QUERY_BUCKETS
+  )
+);
+
+export const chatTokens = register(
+  new Counter("rag_chat_tokens_total", "Tokens used generating answers, by kind (prompt, answer).")
+);
+
+/** Groundedness score of each checked answer, by check (lexical, llm). */
+export const answerGroundedness = register(
+  new Histogram(
+    "rag_answer_groundedness",
+    "Share of an answer's claims supported by the retrieved chunks.",
+    GROUNDEDNESS_BUCKETS
+  )
+);
+
+export const groundingClaims = register(
+  new Counter(
+    "rag_grounding_claims_total",
+    "Answer claims checked, by support (supported, partial, unsupported)."
+  )
+);
+
+export const cacheLookups = register(
+  new Counter(
+    "rag_query_cache_lookups_total",
+    "Query cache lookups, by cache (embedding, answer) and result (hit, miss)."
+  )
+);
+
+export const ingestJobs = register(
+  new Counter(
+    "rag_ingest_jobs_total",
+    "Finished ingestion jobs, by kind (ingest, remove) and result (succeeded, failed)."
+  )
+);
+
+export const ingestDuration = register(
+  new Histogram("rag_ingest_duration_seconds", "Time taken by ingestion jobs, by kind.", INGEST_BUCKETS)
+);
+
+export const chunksEmbedded = register(
+  new Counter(
+    "rag_ingest_chunks_embedded_total",
+    "Chunks sent to the embedding model (unchanged chunks are reused, not counted)."
+  )
+);
+
+/** Set when scraped: queued and running ingestion jobs. */
+export const ingestJobsActive = register(
+  new Gauge("rag_ingest_jobs_active", "Ingestion jobs waiting or in progress, by state.")
+);
+
+/** Set when scraped: documents and chunks in the index. */
+export const indexSize = register(
+  new Gauge("rag_index_size", "Ingested documents and chunks, by kind (documents, chunks).")
+);
@@ -0,0 +1,224 @@
+import type { ChatOptions, ChatProvider, ChatResult, ChatUsage } from "./chat";
+import type { EmbeddingProvider } from "./embeddings";
+import type { JsonSchema } from "./jsonSchema";
+
+// Texts sent per /embeddings request
+const EMBED_BATCH_SIZE = 64;
+
+interface OpenAIOptions {
+  baseUrl: string;
+  apiKey?: string;
+  modelName: string;
+}
+
+// Shape of the OpenAI usage object (chat completions)
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+function headers(apiKey?: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+}
+
+async function failure(res: Response, what: string): Promise<Error> {
+  const body = await res.text().catch(() => "");
+  let message = body;
+  try {
+    message = JSON.parse(body).error?.message ?? body;
+  } catch {
+    // Not JSON — keep the raw body
+  }
+  return new Error(`${what} failed (${res.status}): ${message || "unknown error"}`);
+}
+
+// JSON Schema proper has no "nullable"; it's a type union instead
+function toJsonSchema(schema: JsonSchema): Record<string, unknown> {
+  const { nullable, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    type: nullable ? [schema.type, "null"] : schema.type,
+    ...(nullable && schema.enum ? { enum: [...schema.enum, null] } : {}),
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([name, p]) => [name, toJsonSchema(p)])
+          ),
+        }
+      : {}),
+    ...(items ? { items: toJsonSchema(items) } : {}),
+  };
+}
+
+function toUsage(usage?: OpenAIUsage): ChatUsage | undefined {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        answerTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+}
+
+// ── Embeddings ─────────────────────────────────────────────────────────────
+
+/**
+ * EmbeddingProvider for any server that speaks the OpenAI `/embeddings`
+ * API — OpenAI itself, Ollama (`/v1`), llama.cpp's server, vLLM, etc.
+ * The model's native vector size must equal EMBEDDING_DIMENSION.
+ */
+export class OpenAICompatibleEmbeddings implements EmbeddingProvider {
+  private baseUrl: string;
+  private apiKey?: string;
+  readonly modelName: string;
+  readonly dimension: number;
+
+  constructor(options: OpenAIOptions & { dimension: number }) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, "");
+    this.apiKey = options.apiKey;
+    this.modelName = options.modelName;
+    this.dimension = options.dimension;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    const results: number[][] = [];
+
+    for (let i = 0; i < documents.length; i += EMBED_BATCH_SIZE) {
+      const batch = documents.slice(i, i + EMBED_BATCH_SIZE);
+      const res = await fetch(`${this.baseUrl}/embeddings`, {
+        method: "POST",
+        headers: headers(this.apiKey),
+        body: JSON.stringify({ model: this.modelName, input: batch }),
+      });
+      if (!res.ok) throw await failure(res, "Embeddings request");
+
+      const data: { data?: { index: number; embedding: number[] }[] } =
+        await res.json();
+      const vectors = [...(data.data ?? [])]
+        .sort((a, b) => a.index - b.index)
+        .map((d) => d.embedding);
+
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `Embeddings request returned ${vectors.length} vectors for ${batch.length} inputs`
+        );
+      }
+      for (const v of vectors) {
+        if (!v || v.length === 0) {
+          throw new Error("Embeddings request returned an empty vector");
+        }
+        if (v.length !== this.dimension) {
+          throw new Error(
+            `${this.modelName} returned ${v.length}-dim vectors but EMBEDDING_DIMENSION is ${this.dimension}`
+          );
+        }
+      }
+      results.push(...vectors);
+    }
+
+    return results;
+  }
+}
+
+// ── Chat ───────────────────────────────────────────────────────────────────
+
+/** ChatProvider for any server that speaks the OpenAI `/chat/completions` API. */
+export class OpenAICompatibleChat implements ChatProvider {
+  private baseUrl: string;
+  private apiKey?: string;
+  readonly modelName: string;
+
+  constructor(options: OpenAIOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, "");
+    this.apiKey = options.apiKey;
+    this.modelName = options.modelName;
+  }
+
+  private request(prompt: string, options: ChatOptions, stream: boolean) {
+    return fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: headers(this.apiKey),
+      body: JSON.stringify({
+        model: this.modelName,
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        ...(options.responseSchema
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: { name: "answer", schema: toJsonSchema(options.responseSchema) },
+              },
+            }
+          : {}),
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+    });
+  }
+
+  async generate(prompt: string, options: ChatOptions = {}): Promise<ChatResult> {
+    const res = await this.request(prompt, options, false);
+    if (!res.ok) throw await failure(res, "Chat completion");
+
+    const data: {
+      choices?: { message?: { content?: string } }[];
+      usage?: OpenAIUsage;
+    } = await res.json();
+    return {
+      text: data.choices?.[0]?.message?.content ?? "",
+      usage: toUsage(data.usage),
+    };
+  }
+
+  async stream(
+    prompt: string,
+    onToken: (text: string) => void,
+    options: ChatOptions = {}
+  ): Promise<ChatResult> {
+    const res = await this.request(prompt, options, true);
+    if (!res.ok || !res.body) throw await failure(res, "Chat completion");
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let usage: ChatUsage | undefined;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !payload || payload === "[DONE]") continue;
+
+        const chunk: {
+          choices?: { delta?: { content?: string } }[];
+          usage?: OpenAIUsage;
+        } = JSON.parse(payload);
+        const piece = chunk.choices?.[0]?.delta?.content;
+        if (piece) {
+          text += piece;
+          onToken(piece);
+        }
+        if (chunk.usage) usage = toUsage(chunk.usage);
+      }
+    }
+
+    return { text, usage };
+  }
+}
@@ -0,0 +1,127 @@
+import { Index, Pinecone } from "@pinecone-database/pinecone";
+import {
+  ChunkMetadata,
+  chunkIdPrefix,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from "./vectorStore";
+
+// IDs per fetch request (kept well under Pinecone's URL length limit)
+const FETCH_BATCH_SIZE = 100;
+
+/** VectorStore backed by a Pinecone index (cosine metric). */
+export class PineconeStore implements VectorStore {
+  private index: Index;
+
+  constructor(apiKey: string, indexName: string) {
+    this.index = new Pinecone({ apiKey }).Index(indexName);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.index.upsert(
+      records.map((r) => ({
+        id: r.id,
+        values: r.values,
+        // Pinecone rejects undefined metadata values
+        metadata: Object.fromEntries(
+          Object.entries(r.metadata).filter(([, v]) => v !== undefined)
+        ) as Record<string, string | number | boolean | string[]>,
+      }))
+    );
+  }
+
+  async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+    const response = await this.index.query({
+      vector,
+      topK,
+      filter,
+      includeMetadata: true,
+    });
+
+    return (response.matches ?? []).map((m) => ({
+      id: m.id,
+      score: m.score ?? 0,
+      metadata: (m.metadata ?? {}) as unknown as ChunkMetadata,
+    }));
+  }
+
+  async fetch(ids: string[]): Promise<VectorRecord[]> {
+    const found: VectorRecord[] = [];
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const { records } = await this.index.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const r of Object.values(records)) {
+        found.push({
+          id: r.id,
+          values: r.values ?? [],
+          metadata: (r.metadata ?? {}) as unknown as ChunkMetadata,
+        });
+      }
+    }
+    return found;
+  }
+
+  // IDs under the source's deterministic prefix. Two file names can sanitize
+  // to the same prefix, so callers still check `metadata.source`.
+  private async listIds(source: string): Promise<string[]> {
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await this.index.listPaginated({
+        prefix: chunkIdPrefix(source),
+        paginationToken,
+      });
+      for (const v of page.vectors ?? []) {
+        if (v.id) ids.push(v.id);
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+
+  async listBySource(source: string): Promise<VectorRecord[]> {
+    const records = await this.fetch(await this.listIds(source));
+    return records.filter((r) => r.metadata.source === source);
+  }
+
+  /**
+   * Serverless Pinecone indexes can't delete by metadata filter, so IDs are
+   * listed by their deterministic prefix and then fetched to confirm the
+   * source.
+   */
+  async deleteBySource(
+    source: string,
+    keep: Set<string> = new Set()
+  ): Promise<number> {
+    const candidates = (await this.listIds(source)).filter((id) => !keep.has(id));
+
+    let deleted = 0;
+    for (let i = 0; i < candidates.length; i += FETCH_BATCH_SIZE) {
+      const { records } = await this.index.fetch(
+        candidates.slice(i, i + FETCH_BATCH_SIZE)
+      );
+      const ids = Object.values(records)
+        .filter((r) => r.metadata?.source === source)
+        .map((r) => r.id);
+      if (ids.length > 0) {
+        await this.index.deleteMany(ids);
+        deleted += ids.length;
+      }
+    }
+    return deleted;
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const stats = await this.index.describeIndexStats();
+    return {
+      backend: "pinecone",
+      dimension: stats.dimension,
+      totalVectors: stats.totalRecordCount ?? 0,
+    };
+  }
+}
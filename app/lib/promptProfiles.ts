@@ -0,0 +1,237 @@
+import fs from "fs";
+import path from "path";
+import { getRagConfig } from "./config";
+
+// Default location of the profile files (override with PROMPTS_DIR)
+const DEFAULT_PROMPTS_DIR = path.join(process.cwd(), "prompts");
+
+/** Profile names double as file names: prompts/<name>.json. */
+export const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+
+/**
+ * Placeholders a template may use. `language` is the name of the
+ * question's language when it isn't the corpus language, and empty otherwise.
+ */
+export const PROMPT_VARIABLES = ["context", "question", "history", "language"] as const;
+
+// Without these the model can't answer from the documents
+const REQUIRED_VARIABLES: PromptVariable[] = ["context", "question"];
+
+// {{name}} placeholders and {{#name}}…{{/name}} sections (the latter only
+// rendered when the variable is non-empty; one trailing newline is eaten
+// after each tag so sections can sit on lines of their own)
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const SECTION_PATTERN = /\{\{#(\w+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?/g;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+export type PromptValues = Record<PromptVariable, string>;
+
+/**
+ * One revision of a profile. Versions are append-only: editing a prompt
+ * means adding a version, so every recorded answer can be traced back to
+ * the exact text and settings that produced it.
+ */
+export interface PromptVersion {
+  version: number;
+  /** What changed, for reviewers. */
+  note?: string;
+  createdAt?: string;
+  temperature: number;
+  /** Caps the answer length; the provider's default when unset. */
+  maxTokens?: number;
+  template: string;
+}
+
+export interface PromptProfile {
+  name: string;
+  description: string;
+  /** Served when a request names no version (default: the newest). */
+  activeVersion: number;
+  versions: PromptVersion[];
+}
+
+/** The template and generation settings one answer is produced with. */
+export interface ResolvedPrompt {
+  profile: string;
+  version: number;
+  template: string;
+  temperature: number;
+  maxTokens?: number;
+}
+
+// prompts/<name>.json as written by hand; templates may be split into lines
+interface ProfileFile {
+  description?: string;
+  active?: number;
+  versions?: (Omit<PromptVersion, "template"> & { template: string | string[] })[];
+}
+
+// ── Loading ────────────────────────────────────────────────────────────────
+
+function promptsDir(): string {
+  return process.env.PROMPTS_DIR || DEFAULT_PROMPTS_DIR;
+}
+
+// Parsed profiles by file, re-read only when a file changes
+const store = globalThis as unknown as {
+  __ragPromptProfiles?: Map<string, { mtimeMs: number; profile: PromptProfile }>;
+};
+const parsedProfiles = (store.__ragPromptProfiles ??= new Map());
+
+/** Names of the variables a template uses, sections included. */
+export function templateVariables(template: string): string[] {
+  const names = [...template.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]);
+  const sections = [...template.matchAll(/\{\{[#/](\w+)\}\}/g)].map((m) => m[1]);
+  return [...new Set([...names, ...sections])];
+}
+
+function parseProfile(name: string, file: string): PromptProfile {
+  let raw: ProfileFile;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    throw new Error(`${file} is not valid JSON`);
+  }
+
+  if (!Array.isArray(raw.versions) || raw.versions.length === 0) {
+    throw new Error(`${file} needs at least one entry in "versions"`);
+  }
+
+  const versions = raw.versions.map((v, i): PromptVersion => {
+    const where = `${file}: versions[${i}]`;
+    if (!Number.isInteger(v.version) || v.version < 1) {
+      throw new Error(`${where} needs a positive integer "version"`);
+    }
+    if (typeof v.temperature !== "number" || v.temperature < 0 || v.temperature > 2) {
+      throw new Error(`${where} needs a "temperature" between 0 and 2`);
+    }
+    if (v.maxTokens !== undefined && (!Number.isInteger(v.maxTokens) || v.maxTokens < 1)) {
+      throw new Error(`${where}: "maxTokens" must be a positive integer`);
+    }
+    const template = Array.isArray(v.template) ? v.template.join("\n") : v.template;
+    if (typeof template !== "string" || !template.trim()) {
+      throw new Error(`${where} needs a "template" (a string or an array of lines)`);
+    }
+
+    const used = templateVariables(template);
+    const unknown = used.filter((u) => !(PROMPT_VARIABLES as readonly string[]).includes(u));
+    if (unknown.length > 0) {
+      throw new Error(
+        `${where} uses unknown variable(s) ${unknown.join(", ")}; use ${PROMPT_VARIABLES.join(", ")}`
+      );
+    }
+    const missing = REQUIRED_VARIABLES.filter((r) => !used.includes(r));
+    if (missing.length > 0) {
+      throw new Error(`${where} must use {{${missing.join("}} and {{")}}}`);
+    }
+
+    return {
+      version: v.version,
+      note: v.note,
+      createdAt: v.createdAt,
+      temperature: v.temperature,
+      maxTokens: v.maxTokens,
+      template,
+    };
+  });
+
+  const numbers = versions.map((v) => v.version);
+  if (new Set(numbers).size !== numbers.length) {
+    throw new Error(`${file} lists the same version number twice`);
+  }
+  const activeVersion = raw.active ?? Math.max(...numbers);
+  if (!numbers.includes(activeVersion)) {
+    throw new Error(`${file}: "active" is ${activeVersion}, which is not one of its versions`);
+  }
+
+  return {
+    name,
+    description: raw.description ?? "",
+    activeVersion,
+    versions: versions.sort((a, b) => a.version - b.version),
+  };
+}
+
+function loadProfile(name: string): PromptProfile | undefined {
+  const file = path.join(promptsDir(), `${name}.json`);
+  if (!fs.existsSync(file)) return undefined;
+
+  const { mtimeMs } = fs.statSync(file);
+  const cached = parsedProfiles.get(file);
+  if (cached?.mtimeMs === mtimeMs) return cached.profile;
+
+  const profile = parseProfile(name, file);
+  parsedProfiles.set(file, { mtimeMs, profile });
+  return profile;
+}
+
+/**
+ * Every profile in PROMPTS_DIR (default prompts/), sorted by name. Throws
+ * if a profile file is malformed, so mistakes surface before they are served.
+ */
+export function listProfiles(): PromptProfile[] {
+  const dir = promptsDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".json") && PROFILE_NAME_PATTERN.test(path.basename(f, ".json")))
+    .sort()
+    .map((f) => loadProfile(path.basename(f, ".json"))!);
+}
+
+/**
+ * Looks up the template and settings to answer with: `name` (default
+ * PROMPT_PROFILE) at `version` (default the profile's active version).
+ * Returns an error message for an unknown profile or version.
+ */
+export function resolvePrompt(
+  name?: string,
+  version?: number
+): { prompt: ResolvedPrompt } | { error: string } {
+  const profileName = name ?? getRagConfig().prompts.defaultProfile;
+  const profile = PROFILE_NAME_PATTERN.test(profileName) ? loadProfile(profileName) : undefined;
+  if (!profile) {
+    const known = listProfiles().map((p) => p.name);
+    return {
+      error: `Unknown prompt profile "${profileName}"${known.length ? `; choose from ${known.join(", ")}` : ""}`,
+    };
+  }
+
+  const wanted = version ?? profile.activeVersion;
+  const found = profile.versions.find((v) => v.version === wanted);
+  if (!found) {
+    return {
+      error: `Prompt profile "${profile.name}" has no version ${wanted} (versions ${profile.versions
+        .map((v) => v.version)
+        .join(", ")})`,
+    };
+  }
+
+  return {
+    prompt: {
+      profile: profile.name,
+      version: found.version,
+      template: found.template,
+      temperature: found.temperature,
+      maxTokens: found.maxTokens,
+    },
+  };
+}
+
+// ── Rendering ──────────────────────────────────────────────────────────────
+
+/**
+ * Fills a template in one pass, so text inside the values (a question
+ * containing "{{context}}", say) is never expanded.
+ */
+export function renderPrompt(template: string, values: PromptValues): string {
+  const value = (name: string) => values[name as PromptVariable] ?? "";
+  return template
+    .replace(SECTION_PATTERN, (_, name: string, body: string) =>
+      value(name).trim() ? body : ""
+    )
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => value(name));
+}
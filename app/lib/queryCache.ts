@@ -0,0 +1,206 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Default location of the cache file (override with QUERY_CACHE_PATH)
+const DEFAULT_CACHE_PATH = path.join(process.cwd(), ".vectors", "query-cache.json");
+
+// Entries kept per cache; the least recently used are evicted first
+const MAX_EMBEDDINGS = 1000;
+const MAX_ANSWERS = 1000;
+
+// Changes are written at most this often, not once per query
+const PERSIST_DELAY_MS = 2000;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+interface CachedEmbedding {
+  vector: number[];
+  usedAt: number;
+}
+
+interface CachedAnswer {
+  answer: string;
+  /** Documents the answer was built from; re-ingesting any drops the entry. */
+  sources: string[];
+  createdAt: string;
+  usedAt: number;
+}
+
+interface CacheFile {
+  embeddings: { [key: string]: CachedEmbedding };
+  answers: { [key: string]: CachedAnswer };
+}
+
+/** Reported with every answer: whether each stage was served from the cache. */
+export interface CacheReport {
+  embedding: "hit" | "miss";
+  /** "skip" when no answer was generated (no chunks cleared the threshold). */
+  answer: "hit" | "miss" | "skip";
+}
+
+// One in-memory copy per file, kept across dev-mode hot reloads
+const store = globalThis as unknown as {
+  __ragQueryCaches?: Map<string, QueryCache>;
+};
+const openCaches = (store.__ragQueryCaches ??= new Map());
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Lower-cased, whitespace-collapsed question without trailing punctuation,
+ * so "How many casual leaves do I get?" and "how many casual leaves do i
+ * get" share an answer.
+ */
+export function normalizeQuestion(question: string): string {
+  return question.toLowerCase().replace(/\s+/g, " ").replace(/[\s?.!]+$/, "").trim();
+}
+
+// Drops the least recently used entries beyond `max`
+function evict<T extends { usedAt: number }>(entries: { [key: string]: T }, max: number): void {
+  const keys = Object.keys(entries);
+  if (keys.length <= max) return;
+  keys
+    .sort((a, b) => entries[a].usedAt - entries[b].usedAt)
+    .slice(0, keys.length - max)
+    .forEach((key) => delete entries[key]);
+}
+
+// ── Cache ──────────────────────────────────────────────────────────────────
+
+/**
+ * Persistent cache for the query pipeline, stored as one JSON file:
+ *
+ * - question embeddings, keyed by model, dimension and exact text
+ * - answers, keyed by chat model, prompt profile version (e.g.
+ *   `legal@2`), normalized question and the ordered IDs of the chunks in
+ *   the prompt
+ *
+ * Chunk IDs hash the chunk text, so an edited chunk never matches an old
+ * answer; ingestion also calls `invalidateSource` so every answer built
+ * from a re-ingested or removed document is dropped.
+ */
+export class QueryCache {
+  private data: CacheFile;
+  private persistTimer?: NodeJS.Timeout;
+
+  private constructor(private filePath: string) {
+    this.data = { embeddings: {}, answers: {} };
+    try {
+      if (fs.existsSync(filePath)) {
+        this.data = JSON.parse(fs.readFileSync(filePath, "utf-8")) as CacheFile;
+      }
+    } catch {
+      // A cache is disposable — start fresh
+      console.warn(`[RAG] Could not read ${filePath} — starting with an empty query cache.`);
+    }
+  }
+
+  /** Opens (or reuses) the cache at QUERY_CACHE_PATH. */
+  static open(
+    filePath = process.env.QUERY_CACHE_PATH || DEFAULT_CACHE_PATH
+  ): QueryCache {
+    let instance = openCaches.get(filePath);
+    if (!instance) {
+      instance = new QueryCache(filePath);
+      openCaches.set(filePath, instance);
+    }
+    return instance;
+  }
+
+  /** Schedules a write via a temp file + rename, batching bursts of changes. */
+  private persistSoon(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      try {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(this.data), "utf-8");
+        fs.renameSync(tmpPath, this.filePath);
+      } catch (err) {
+        console.warn(
+          `[RAG] Could not write ${this.filePath}:`,
+          err instanceof Error ? err.message : err
+        );
+      }
+    }, PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private static embeddingKey(model: string, dimension: number, text: string): string {
+    return sha256(`${model}\n${dimension}\n${text}`);
+  }
+
+  private static answerKey(
+    model: string,
+    prompt: string,
+    question: string,
+    chunkIds: string[]
+  ): string {
+    return sha256(
+      `${model}\n${prompt}\n${normalizeQuestion(question)}\n${chunkIds.join("\n")}`
+    );
+  }
+
+  getEmbedding(model: string, dimension: number, text: string): number[] | undefined {
+    const entry = this.data.embeddings[QueryCache.embeddingKey(model, dimension, text)];
+    if (!entry || entry.vector.length !== dimension) return undefined;
+    entry.usedAt = Date.now();
+    return entry.vector;
+  }
+
+  setEmbedding(model: string, dimension: number, text: string, vector: number[]): void {
+    this.data.embeddings[QueryCache.embeddingKey(model, dimension, text)] = {
+      vector,
+      usedAt: Date.now(),
+    };
+    evict(this.data.embeddings, MAX_EMBEDDINGS);
+    this.persistSoon();
+  }
+
+  getAnswer(
+    model: string,
+    prompt: string,
+    question: string,
+    chunkIds: string[]
+  ): string | undefined {
+    const entry = this.data.answers[QueryCache.answerKey(model, prompt, question, chunkIds)];
+    if (!entry) return undefined;
+    entry.usedAt = Date.now();
+    return entry.answer;
+  }
+
+  setAnswer(
+    model: string,
+    prompt: string,
+    question: string,
+    chunkIds: string[],
+    answer: string,
+    sources: string[]
+  ): void {
+    this.data.answers[QueryCache.answerKey(model, prompt, question, chunkIds)] = {
+      answer,
+      sources: [...new Set(sources)],
+      createdAt: new Date().toISOString(),
+      usedAt: Date.now(),
+    };
+    evict(this.data.answers, MAX_ANSWERS);
+    this.persistSoon();
+  }
+
+  /** Drops every cached answer built from `source`. Returns the number dropped. */
+  invalidateSource(source: string): number {
+    let dropped = 0;
+    for (const [key, entry] of Object.entries(this.data.answers)) {
+      if (entry.sources.includes(source)) {
+        delete this.data.answers[key];
+        dropped++;
+      }
+    }
+    if (dropped > 0) this.persistSoon();
+    return dropped;
+  }
+}
@@ -0,0 +1,199 @@
+import { createHash } from "crypto";
+import { ChatUsage } from "./chat";
+import { getRagConfig } from "./config";
+import type { GroundingReport } from "./grounding";
+import {
+  answerGroundedness,
+  cacheLookups,
+  chatTokens,
+  groundingClaims,
+  queryDuration,
+  queryRequests,
+  queryStageDuration,
+} from "./metrics";
+import { CacheReport, normalizeQuestion } from "./queryCache";
+import { endSpan, Span, startSpan } from "./telemetry";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type QueryOutcome =
+  | "answered"
+  | "not_covered"
+  | "no_content"
+  | "unverified"
+  | "invalid"
+  | "error";
+
+/** Milliseconds spent in each pipeline stage. */
+export interface QueryTiming {
+  rewriteMs: number;
+  /** Detecting the question's language and translating it for search. */
+  translateMs: number;
+  embedMs: number;
+  retrieveMs: number;
+  rerankMs: number;
+  generateMs: number;
+  /** Checking the answer's claims against the chunks (0 when off). */
+  verifyMs: number;
+  totalMs: number;
+}
+
+/** Names the prompt template an answer came from, e.g. `{ profile: "legal", version: 2 }`. */
+export interface PromptRef {
+  profile: string;
+  version: number;
+}
+
+/** A chunk that made it into the prompt. */
+export interface RetrievedChunk {
+  id: string;
+  score?: number;
+  source?: string;
+}
+
+/** One line of the query log. */
+export interface QueryLogEntry {
+  event: "rag.query";
+  at: string;
+  traceId: string;
+  /** Truncated SHA-256 of the normalized question; the text is never logged. */
+  questionHash?: string;
+  conversationId?: string;
+  outcome: QueryOutcome;
+  stream: boolean;
+  candidateChunks?: number;
+  retrieved: RetrievedChunk[];
+  timing: Partial<QueryTiming>;
+  tokens?: ChatUsage;
+  cache?: CacheReport;
+  /** Prompt profile and version the answer was generated with. */
+  prompt?: PromptRef;
+  /** Structured answer format, when one was requested. */
+  format?: string;
+  /** Language tag of the question, e.g. "hi". */
+  language?: string;
+  grounding?: { check: string; score: number; claims: number; unsupported: number; removed: number };
+  error?: string;
+}
+
+// Pipeline stages with their own latency histogram series
+const STAGES = ["rewrite", "translate", "embed", "retrieve", "rerank", "generate", "verify"] as const;
+
+// ── Recorder ───────────────────────────────────────────────────────────────
+
+/**
+ * Collects what happens to one POST /api/query request and reports it once
+ * it settles (for streams, after the last token): ends the request's root
+ * span, updates the Prometheus metrics and prints one JSON log line
+ * (QUERY_LOG=false to silence it).
+ */
+export class QueryRecorder {
+  /** Root span of the request; pipeline stages are its children. */
+  readonly span: Span;
+  private startedAt = Date.now();
+  private finished = false;
+
+  question?: string;
+  conversationId?: string;
+  stream = false;
+  candidateChunks?: number;
+  retrieved: RetrievedChunk[] = [];
+  timing?: QueryTiming;
+  usage?: ChatUsage;
+  cache?: CacheReport;
+  prompt?: PromptRef;
+  format?: string;
+  language?: string;
+  grounding?: GroundingReport;
+
+  constructor(traceparent?: string | null) {
+    this.span = startSpan("rag.query", { "http.route": "/api/query" }, traceparent);
+  }
+
+  /** Reports the request. Only the first call counts. */
+  finish(outcome: QueryOutcome, error?: unknown): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    const timing: Partial<QueryTiming> = this.timing ?? {
+      totalMs: Date.now() - this.startedAt,
+    };
+    const message =
+      error === undefined ? undefined : error instanceof Error ? error.message : String(error);
+
+    // Metrics
+    const stream = String(this.stream);
+    queryRequests.inc({ outcome, stream });
+    queryDuration.observe({ outcome }, timing.totalMs! / 1000);
+    if (this.timing) {
+      for (const stage of STAGES) {
+        queryStageDuration.observe({ stage }, this.timing[`${stage}Ms`] / 1000);
+      }
+    }
+    if (this.usage?.promptTokens) chatTokens.inc({ kind: "prompt" }, this.usage.promptTokens);
+    if (this.usage?.answerTokens) chatTokens.inc({ kind: "answer" }, this.usage.answerTokens);
+    if (this.grounding) {
+      answerGroundedness.observe({ check: this.grounding.check }, this.grounding.score);
+      for (const claim of this.grounding.claims) groundingClaims.inc({ support: claim.support });
+    }
+    if (this.cache) {
+      cacheLookups.inc({ cache: "embedding", result: this.cache.embedding });
+      if (this.cache.answer !== "skip") {
+        cacheLookups.inc({ cache: "answer", result: this.cache.answer });
+      }
+    }
+
+    // Trace
+    Object.assign(this.span.attributes, {
+      "rag.outcome": outcome,
+      "rag.stream": this.stream,
+      "rag.conversation_id": this.conversationId,
+      "rag.retrieved_chunks": this.retrieved.length,
+      "rag.cache.embedding": this.cache?.embedding,
+      "rag.cache.answer": this.cache?.answer,
+      "rag.prompt.profile": this.prompt?.profile,
+      "rag.prompt.version": this.prompt?.version,
+      "rag.format": this.format,
+      "rag.language": this.language,
+      "rag.grounding.score": this.grounding?.score,
+      "rag.grounding.unsupported": this.grounding?.unsupported,
+      "rag.tokens.prompt": this.usage?.promptTokens,
+      "rag.tokens.answer": this.usage?.answerTokens,
+    });
+    endSpan(this.span, error);
+
+    // Log
+    if (!getRagConfig().telemetry.queryLog) return;
+    const entry: QueryLogEntry = {
+      event: "rag.query",
+      at: new Date().toISOString(),
+      traceId: this.span.traceId,
+      questionHash: this.question ? hashQuestion(this.question) : undefined,
+      conversationId: this.conversationId,
+      outcome,
+      stream: this.stream,
+      candidateChunks: this.candidateChunks,
+      retrieved: this.retrieved,
+      timing,
+      tokens: this.usage,
+      cache: this.cache,
+      prompt: this.prompt,
+      format: this.format,
+      language: this.language,
+      grounding: this.grounding && {
+        check: this.grounding.check,
+        score: Number(this.grounding.score.toFixed(3)),
+        claims: this.grounding.claims.length,
+        unsupported: this.grounding.unsupported,
+        removed: this.grounding.removed,
+      },
+      error: message,
+    };
+    console.log(JSON.stringify(entry));
+  }
+}
+
+/** Groups repeats of a question in the log without storing what was asked. */
+export function hashQuestion(question: string): string {
+  return createHash("sha256").update(normalizeQuestion(question)).digest("hex").slice(0, 16);
+}
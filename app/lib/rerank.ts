@@ -0,0 +1,117 @@
+import type { ChatProvider } from "./chat";
+import { getRagConfig, RerankerName } from "./config";
+import type { RetrievedChunk } from "./retrieval";
+import { stem, tokenize } from "./text";
+
+// Characters of each chunk shown to the LLM reranker
+const LLM_PASSAGE_LENGTH = 800;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * Re-scores retrieved chunks against the question. Implementations set
+ * `rerankScore` (0–1, higher is more relevant) on every chunk and return
+ * them best first.
+ */
+export interface Reranker {
+  readonly name: RerankerName;
+  rerank(question: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]>;
+}
+
+// Best rerank score first; ties keep the retrieval order
+function byRerankScore(chunks: RetrievedChunk[]): RetrievedChunk[] {
+  return [...chunks].sort(
+    (a, b) => (b.rerankScore ?? 0) - (a.rerankScore ?? 0) || b.score - a.score
+  );
+}
+
+// ── Lexical ────────────────────────────────────────────────────────────────
+
+/**
+ * Local reranker: scores each chunk by the share of the question's
+ * (stemmed, non-stop-word) terms it contains. Free and deterministic, but
+ * blind to paraphrases — pair it with a low RERANK_MIN_SCORE.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = "lexical" as const;
+
+  async rerank(question: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+    const wanted = new Set(tokenize(question).map(stem));
+
+    return byRerankScore(
+      chunks.map((chunk) => {
+        if (wanted.size === 0) return { ...chunk, rerankScore: 0 };
+        const present = new Set(tokenize(chunk.metadata.text).map(stem));
+        const hits = [...wanted].filter((t) => present.has(t)).length;
+        return { ...chunk, rerankScore: hits / wanted.size };
+      })
+    );
+  }
+}
+
+// ── LLM ────────────────────────────────────────────────────────────────────
+
+/**
+ * Asks the chat model to grade every chunk 0–10 in one call. If the reply
+ * can't be parsed, falls back to lexical scores rather than failing the
+ * query.
+ */
+export class LLMReranker implements Reranker {
+  readonly name = "llm" as const;
+
+  constructor(private llm: ChatProvider) {}
+
+  async rerank(question: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+    if (chunks.length === 0) return [];
+
+    const passages = chunks
+      .map((c, i) => `[${i + 1}] ${c.metadata.text.slice(0, LLM_PASSAGE_LENGTH)}`)
+      .join("\n\n");
+
+    const prompt = `Rate how useful each passage is for answering the question, \
+from 0 (irrelevant) to 10 (directly answers it).
+Reply with JSON only: an object mapping every passage number to its score, e.g. {"1": 7, "2": 0}.
+
+Question: ${question}
+
+Passages:
+${passages}
+
+Scores:`;
+
+    try {
+      const { text } = await this.llm.generate(prompt, { temperature: 0 });
+      const json = text.match(/\{[\s\S]*\}/)?.[0];
+      if (!json) throw new Error("reply contained no JSON object");
+
+      const scores = JSON.parse(json) as Record<string, unknown>;
+      return byRerankScore(
+        chunks.map((chunk, i) => {
+          const raw = Number(scores[String(i + 1)]);
+          const score = Number.isFinite(raw) ? Math.min(Math.max(raw, 0), 10) : 0;
+          return { ...chunk, rerankScore: score / 10 };
+        })
+      );
+    } catch (err) {
+      console.warn(
+        "[RAG] LLM reranking failed — falling back to lexical scores:",
+        err instanceof Error ? err.message : err
+      );
+      return new LexicalReranker().rerank(question, chunks);
+    }
+  }
+}
+
+// ── Factory ────────────────────────────────────────────────────────────────
+
+/** Returns the reranker selected by RERANKER, or undefined for "none". */
+export function createReranker(llm: ChatProvider): Reranker | undefined {
+  switch (getRagConfig().rerank.reranker) {
+    case "lexical":
+      return new LexicalReranker();
+    case "llm":
+      return new LLMReranker(llm);
+    case "none":
+      return undefined;
+  }
+}
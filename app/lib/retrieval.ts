@@ -0,0 +1,93 @@
+import { KeywordIndex } from "./keywordIndex";
+import {
+  ChunkMetadata,
+  getVectorStore,
+  MetadataFilter,
+  VectorMatch,
+} from "./vectorStore";
+
+// Candidates each retriever contributes before fusion
+const CANDIDATES_PER_RETRIEVER = 20;
+
+// RRF damping constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type RetrieverName = "vector" | "keyword";
+
+/** A chunk found by one or more retrievers, after fusion. */
+export interface RetrievedChunk {
+  id: string;
+  /** Fused relevance, normalised so 1 = ranked first by every retriever. */
+  score: number;
+  metadata: ChunkMetadata;
+  retrievers: RetrieverName[];
+  /** Cosine similarity, when the vector retriever found the chunk. */
+  vectorScore?: number;
+  /** BM25 score, when the keyword retriever found the chunk. */
+  keywordScore?: number;
+  /** Reranker score (0–1), once a reranker has scored the chunk. */
+  rerankScore?: number;
+}
+
+export interface RetrieveOptions {
+  question: string;
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+}
+
+// ── Fusion ─────────────────────────────────────────────────────────────────
+
+/**
+ * Merges ranked result lists with reciprocal-rank fusion: each chunk scores
+ * Σ 1 / (RRF_K + rank) over the lists it appears in. Only ranks matter, so
+ * cosine similarities and BM25 scores never need to share a scale.
+ */
+export function reciprocalRankFusion(
+  lists: { retriever: RetrieverName; matches: VectorMatch[] }[]
+): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+  const best = lists.length / (RRF_K + 1);
+
+  for (const { retriever, matches } of lists) {
+    matches.forEach((match, i) => {
+      let chunk = fused.get(match.id);
+      if (!chunk) {
+        chunk = { id: match.id, score: 0, metadata: match.metadata, retrievers: [] };
+        fused.set(match.id, chunk);
+      }
+      chunk.score += 1 / (RRF_K + i + 1) / best;
+      chunk.retrievers.push(retriever);
+      if (retriever === "vector") chunk.vectorScore = match.score;
+      else chunk.keywordScore = match.score;
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Hybrid retrieval: runs dense vector search and BM25 keyword search over
+ * the same chunks and fuses the two rankings, returning the best `topK`.
+ */
+export async function retrieveChunks({
+  question,
+  vector,
+  topK,
+  filter,
+}: RetrieveOptions): Promise<RetrievedChunk[]> {
+  const candidates = Math.max(topK, CANDIDATES_PER_RETRIEVER);
+  const store = await getVectorStore();
+
+  const [vectorMatches, keywordMatches] = await Promise.all([
+    store.query({ vector, topK: candidates, filter }),
+    KeywordIndex.open().search(question, candidates, filter),
+  ]);
+
+  return reciprocalRankFusion([
+    { retriever: "vector", matches: vectorMatches },
+    { retriever: "keyword", matches: keywordMatches },
+  ]).slice(0, topK);
+}
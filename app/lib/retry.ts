@@ -0,0 +1,160 @@
+// Statuses worth retrying: rate limited, or a transient server-side failure
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// First backoff step and the longest single wait between attempts; a
+// server whose Retry-After asks for longer gets its response back unretried
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 60_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ── Rate limiting ──────────────────────────────────────────────────────────
+
+/**
+ * Token-bucket rate limiter: holds up to `capacity` tokens, refilled at
+ * `perMinute` tokens a minute. `take()` resolves once a token is
+ * available; callers are served in the order they asked.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly perMinute: number,
+    private readonly capacity: number = perMinute
+  ) {
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn;
+    return turn;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) * this.perMinute) / 60_000
+    );
+    this.lastRefill = now;
+  }
+
+  private async waitForToken(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep(((1 - this.tokens) * 60_000) / this.perMinute);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+}
+
+// ── Retries ────────────────────────────────────────────────────────────────
+
+export interface RetryOptions {
+  /** Retries after the first attempt (0 = fail on the first error). */
+  maxRetries: number;
+  /** Waited on before every attempt, retries included. */
+  limiter?: TokenBucket;
+  /** Name used in log lines, e.g. "Gemini batchEmbedContents". */
+  label: string;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(res: Response): number | undefined {
+  const header = res.headers.get("retry-after");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter: random in [0, base · 2^attempt]
+function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * `fetch` that retries network errors and 408/429/5xx responses with
+ * exponential backoff and jitter, waiting at least as long as the
+ * server's Retry-After header asks. A Retry-After beyond MAX_DELAY_MS (60s)
+ * isn't waited out: that response is returned without further retries.
+ * Other responses — including the last failed attempt — are returned as-is
+ * for the caller to turn into an error.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RetryOptions
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await options.limiter?.take();
+
+    let res: Response | undefined;
+    let reason: string;
+    try {
+      res = await fetch(url, init);
+      if (!RETRYABLE_STATUSES.has(res.status)) return res;
+      reason = `returned ${res.status}`;
+    } catch (err) {
+      if (attempt >= options.maxRetries) throw err;
+      reason = `failed (${err instanceof Error ? err.message : err})`;
+    }
+    if (res && attempt >= options.maxRetries) return res;
+
+    const retryAfter = res && retryAfterMs(res);
+    if (res && retryAfter !== undefined && retryAfter > MAX_DELAY_MS) {
+      console.warn(
+        `[RAG] ${options.label} ${reason} and asks to wait ${Math.ceil(retryAfter / 1000)}s — ` +
+          "not retrying"
+      );
+      return res;
+    }
+    const delay = Math.max(backoffMs(attempt), retryAfter ?? 0);
+    // Free the connection before waiting
+    await res?.body?.cancel().catch(() => {});
+    console.warn(
+      `[RAG] ${options.label} ${reason} — retrying in ${(delay / 1000).toFixed(1)}s ` +
+        `(${attempt + 1}/${options.maxRetries})`
+    );
+    await sleep(delay);
+  }
+}
+
+// ── Concurrency ────────────────────────────────────────────────────────────
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight, keeping
+ * the input order. Rejects with the first error; no new items are started
+ * after a failure.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
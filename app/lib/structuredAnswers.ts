@@ -0,0 +1,265 @@
+import { createHash } from "crypto";
+import type { ChatOptions, ChatProvider, ChatUsage } from "./chat";
+import { JsonSchema, parseJsonSchema, validateJson } from "./jsonSchema";
+
+// One retry with the validation issues spelled out, then give up
+const MAX_ATTEMPTS = 2;
+
+// Issues quoted back to the model (and logged) per failed attempt
+const MAX_REPORTED_ISSUES = 10;
+
+// Names a custom format in logs and OpenAI's json_schema.name
+const FORMAT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// ── Built-in shapes ────────────────────────────────────────────────────────
+
+const citations: JsonSchema = {
+  type: "array",
+  description: "Numbers of the passages this relies on, e.g. [2] for passage [2]",
+  items: { type: "integer" },
+};
+
+const confidence: JsonSchema = {
+  type: "string",
+  enum: ["high", "medium", "low"],
+  description:
+    "high: the passages state the answer outright; medium: it follows from them; low: they only partly cover the question",
+};
+
+const citedItems = (description: string): JsonSchema => ({
+  type: "array",
+  description,
+  items: {
+    type: "object",
+    properties: { text: { type: "string" }, citations },
+    required: ["text", "citations"],
+  },
+});
+
+/** Formats a caller can name instead of sending a schema. */
+export const BUILT_IN_FORMATS: Record<string, JsonSchema> = {
+  direct: {
+    type: "object",
+    properties: {
+      answer: { type: "string", description: "One or two sentences that answer the question" },
+      citations,
+      confidence,
+    },
+    required: ["answer", "citations", "confidence"],
+  },
+  steps: {
+    type: "object",
+    properties: {
+      answer: { type: "string", description: "One sentence summing up the procedure" },
+      steps: citedItems("What to do, in order, one action per step"),
+      citations,
+      confidence,
+    },
+    required: ["answer", "steps", "citations", "confidence"],
+  },
+  conditions: {
+    type: "object",
+    properties: {
+      answer: { type: "string", description: "One or two sentences that answer the question" },
+      conditions: citedItems("What must be true for the answer to apply"),
+      exceptions: citedItems("Cases the policy treats differently; empty if none"),
+      citations,
+      confidence,
+    },
+    required: ["answer", "conditions", "exceptions", "citations", "confidence"],
+  },
+};
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** The shape an answer must be returned in. */
+export interface AnswerFormat {
+  /** A built-in name, or the caller's name for a custom schema ("custom"). */
+  name: string;
+  /** Separates cached answers: the built-in name, or a hash of the schema. */
+  key: string;
+  schema: JsonSchema;
+}
+
+export interface StructuredAnswer {
+  value: Record<string, unknown>;
+  /** The value as JSON, as cached. */
+  text: string;
+  usage?: ChatUsage;
+  attempts: number;
+}
+
+/** Returned when no attempt matched the schema. */
+export interface StructuredAnswerFailure {
+  error: string;
+  issues: string[];
+  usage?: ChatUsage;
+}
+
+// ── Formats ────────────────────────────────────────────────────────────────
+
+/**
+ * Validates the `format` of a query: a built-in name (e.g. "steps") or
+ * `{ "schema": {…}, "name"?: "…" }` with a schema in the subset described
+ * in app/lib/jsonSchema.ts.
+ */
+export function parseAnswerFormat(input: unknown): { format: AnswerFormat } | { error: string } {
+  const builtIns = Object.keys(BUILT_IN_FORMATS).join(", ");
+
+  if (typeof input === "string") {
+    const schema = BUILT_IN_FORMATS[input];
+    if (!schema) {
+      return { error: `Unknown format "${input}"; choose from ${builtIns} or send { "schema": … }` };
+    }
+    return { format: { name: input, key: input, schema } };
+  }
+
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: `format must be one of ${builtIns}, or { "schema": … }` };
+  }
+  const { schema: raw, name = "custom", ...rest } = input as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) {
+    return { error: `format has unknown field(s) ${Object.keys(rest).join(", ")}` };
+  }
+  if (typeof name !== "string" || !FORMAT_NAME_PATTERN.test(name)) {
+    return { error: "format.name must be 1–64 letters, digits, _ or -" };
+  }
+  const parsed = parseJsonSchema(raw, "format.schema");
+  if ("error" in parsed) return parsed;
+
+  const hash = createHash("sha256").update(JSON.stringify(parsed.schema)).digest("hex");
+  return { format: { name, key: `schema:${hash.slice(0, 16)}`, schema: parsed.schema } };
+}
+
+// ── Generation ─────────────────────────────────────────────────────────────
+
+/**
+ * Turns a rendered answer prompt into one asking for JSON: the trailing
+ * "Answer:" is replaced by the schema and instructions to cite by number.
+ */
+export function buildStructuredPrompt(prompt: string, format: AnswerFormat): string {
+  return `${prompt.replace(/\n*Answer:\s*$/, "")}
+
+Reply with a single JSON object and nothing else. It must match this schema:
+${JSON.stringify(format.schema, null, 2)}
+
+Take every fact from the numbered context passages above. Wherever the schema asks for citations, give the numbers of the passages you relied on, e.g. 2 for passage [2].
+
+JSON:`;
+}
+
+/**
+ * Parses a model reply (tolerating a ```json fence around it) and checks it
+ * against the format's schema.
+ */
+export function checkStructuredAnswer(
+  text: string,
+  format: AnswerFormat
+): { value: Record<string, unknown> } | { issues: string[] } {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return { issues: ["The reply is not valid JSON"] };
+  }
+  const issues = validateJson(value, format.schema);
+  return issues.length > 0 ? { issues } : { value: value as Record<string, unknown> };
+}
+
+function addUsage(total: ChatUsage | undefined, usage: ChatUsage | undefined) {
+  if (!total || !usage) return total ?? usage;
+  const sum = (a?: number, b?: number) =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+  return {
+    promptTokens: sum(total.promptTokens, usage.promptTokens),
+    answerTokens: sum(total.answerTokens, usage.answerTokens),
+    totalTokens: sum(total.totalTokens, usage.totalTokens),
+  };
+}
+
+/**
+ * Generates a JSON answer constrained to the format's schema (where the
+ * provider supports it) and validates it. A reply that doesn't match is
+ * retried once, quoting what was wrong with it; if that fails too, the
+ * issues are returned instead of an answer. Usage covers every attempt.
+ */
+export async function generateStructured(
+  llm: ChatProvider,
+  prompt: string,
+  format: AnswerFormat,
+  generation: ChatOptions = {}
+): Promise<StructuredAnswer | StructuredAnswerFailure> {
+  const options: ChatOptions = { ...generation, responseSchema: format.schema };
+  let usage: ChatUsage | undefined;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const request =
+      attempt === 1
+        ? prompt
+        : `${prompt}
+
+Your previous reply did not match the schema:
+${issues.map((i) => `- ${i}`).join("\n")}
+
+Reply again with a corrected JSON object only.
+
+JSON:`;
+    const result = await llm.generate(request, options);
+    usage = addUsage(usage, result.usage);
+
+    const checked = checkStructuredAnswer(result.text, format);
+    if ("value" in checked) {
+      return { value: checked.value, text: JSON.stringify(checked.value), usage, attempts: attempt };
+    }
+    issues = checked.issues.slice(0, MAX_REPORTED_ISSUES);
+    console.warn(
+      `[RAG] ✗ Structured answer (${format.name}) attempt ${attempt}/${MAX_ATTEMPTS} did not match its schema: ${issues.join("; ")}`
+    );
+  }
+
+  return {
+    error: `The model's answer did not match the "${format.name}" format after ${MAX_ATTEMPTS} attempts`,
+    issues,
+    usage,
+  };
+}
+
+// ── Text ───────────────────────────────────────────────────────────────────
+
+/**
+ * The prose of a structured answer, one line per text field, with each
+ * object's `citations` appended to its first line as [n] markers. Enum
+ * values (e.g. confidence) are left out. This is what citations, the
+ * grounding check, conversation history and feedback records work from.
+ */
+export function answerText(value: unknown, schema: JsonSchema): string {
+  const lines: string[] = [];
+
+  const walk = (node: unknown, shape: JsonSchema | undefined) => {
+    if (typeof node === "string") {
+      if (node.trim() && !shape?.enum) lines.push(node.trim());
+    } else if (Array.isArray(node)) {
+      node.forEach((item) => walk(item, shape?.items));
+    } else if (typeof node === "object" && node !== null) {
+      const first = lines.length;
+      const record = node as Record<string, unknown>;
+      for (const [name, child] of Object.entries(record)) {
+        if (name !== "citations") walk(child, shape?.properties?.[name]);
+      }
+      const cited = Array.isArray(record.citations)
+        ? record.citations.filter((n): n is number => Number.isInteger(n))
+        : [];
+      if (cited.length > 0 && lines.length > first) {
+        lines[first] += ` [${[...new Set(cited)].join(", ")}]`;
+      }
+    }
+  };
+
+  walk(value, schema);
+  return lines.join("\n");
+}
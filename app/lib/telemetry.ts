@@ -0,0 +1,238 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { getRagConfig } from "./config";
+
+// Spans buffered before an OTLP export, and the longest they wait
+const EXPORT_BATCH_SIZE = 100;
+const EXPORT_INTERVAL_MS = 5000;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** Root spans of a request are SERVER spans; everything else INTERNAL. */
+  kind: "server" | "internal";
+  startTime: number;
+  endTime?: number;
+  attributes: SpanAttributes;
+  error?: string;
+}
+
+/** Receives every finished span. */
+export type SpanExporter = (span: Span) => void;
+
+interface TracingState {
+  exporter?: SpanExporter;
+  context: AsyncLocalStorage<Span>;
+}
+
+// Kept on globalThis so instrumentation.ts and route handlers (separate
+// bundles in dev) share one exporter and one context
+const store = globalThis as unknown as { __ragTracing?: TracingState };
+const state: TracingState = (store.__ragTracing ??= {
+  context: new AsyncLocalStorage<Span>(),
+});
+
+// High-resolution wall-clock time in milliseconds
+const now = () => performance.timeOrigin + performance.now();
+
+const randomId = (bytes: number) => randomBytes(bytes).toString("hex");
+
+// ── Spans ──────────────────────────────────────────────────────────────────
+
+// Parses a W3C `traceparent` header: 00-<trace id>-<parent span id>-<flags>
+function parseTraceparent(header?: string | null) {
+  const match = header?.match(/^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/);
+  return match ? { traceId: match[1], spanId: match[2] } : undefined;
+}
+
+/**
+ * Starts a span. It becomes a child of the span active in the current async
+ * context, else of the caller's `traceparent` header, else a new trace.
+ * Call `endSpan` when the work is done.
+ */
+export function startSpan(
+  name: string,
+  attributes: SpanAttributes = {},
+  traceparent?: string | null
+): Span {
+  const parent = state.context.getStore() ?? parseTraceparent(traceparent);
+  return {
+    traceId: parent?.traceId ?? randomId(16),
+    spanId: randomId(8),
+    parentSpanId: parent?.spanId,
+    name,
+    kind: state.context.getStore() ? "internal" : "server",
+    startTime: now(),
+    attributes,
+  };
+}
+
+/** Ends a span (marking it failed when `error` is given) and exports it. */
+export function endSpan(span: Span, error?: unknown): void {
+  if (span.endTime !== undefined) return;
+  span.endTime = now();
+  if (error !== undefined) {
+    span.error = error instanceof Error ? error.message : String(error);
+  }
+  state.exporter?.(span);
+}
+
+/** Runs `fn` with `span` as the active span, so spans it starts are children. */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return state.context.run(span, fn);
+}
+
+/** Runs `fn` in a new child span, ending it when `fn` settles. */
+export async function withSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(name, attributes);
+  try {
+    const result = await runInSpan(span, () => fn(span));
+    endSpan(span);
+    return result;
+  } catch (err) {
+    endSpan(span, err);
+    throw err;
+  }
+}
+
+/**
+ * Like `withSpan`, but always starts a new trace — for background work
+ * (ingestion jobs) that outlives whatever request queued it.
+ */
+export function withRootSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return state.context.exit(() => withSpan(name, attributes, fn));
+}
+
+// ── Exporters ──────────────────────────────────────────────────────────────
+
+function consoleExporter(span: Span): void {
+  const attrs = Object.entries(span.attributes)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${v}`)
+    .join(" ");
+  console.log(
+    `[trace] ${span.name} ${(span.endTime! - span.startTime).toFixed(1)}ms` +
+      `${span.error ? ` ✗ ${span.error}` : ""} trace=${span.traceId}${attrs ? ` ${attrs}` : ""}`
+  );
+}
+
+// Attribute in OTLP/JSON form
+function otlpAttribute(key: string, value: string | number | boolean) {
+  return {
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  };
+}
+
+const toNanos = (ms: number) => (BigInt(Math.round(ms * 1000)) * BigInt(1000)).toString();
+
+/**
+ * Batches spans and POSTs them as OTLP/HTTP JSON to
+ * `<endpoint>/v1/traces` — accepted by the OpenTelemetry Collector,
+ * Jaeger, Grafana Tempo and most tracing backends.
+ */
+function otlpExporter(endpoint: string, serviceName: string): SpanExporter {
+  let buffer: Span[] = [];
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const spans = buffer;
+    buffer = [];
+    if (spans.length === 0) return;
+
+    const body = {
+      resourceSpans: [
+        {
+          resource: { attributes: [otlpAttribute("service.name", serviceName)] },
+          scopeSpans: [
+            {
+              scope: { name: serviceName },
+              spans: spans.map((s) => ({
+                traceId: s.traceId,
+                spanId: s.spanId,
+                parentSpanId: s.parentSpanId ?? "",
+                name: s.name,
+                kind: s.kind === "server" ? 2 : 1,
+                startTimeUnixNano: toNanos(s.startTime),
+                endTimeUnixNano: toNanos(s.endTime!),
+                attributes: Object.entries(s.attributes).flatMap(([k, v]) =>
+                  v === undefined ? [] : [otlpAttribute(k, v)]
+                ),
+                status: s.error ? { code: 2, message: s.error } : { code: 1 },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+
+    fetch(`${endpoint}/v1/traces`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+      .then((res) => {
+        if (!res.ok) console.warn(`[RAG] Trace export failed (${res.status}); ${spans.length} span(s) dropped.`);
+      })
+      .catch((err) =>
+        console.warn(`[RAG] Trace export failed (${err.message}); ${spans.length} span(s) dropped.`)
+      );
+  };
+
+  return (span) => {
+    buffer.push(span);
+    if (buffer.length >= EXPORT_BATCH_SIZE) flush();
+    else if (!timer) {
+      timer = setTimeout(flush, EXPORT_INTERVAL_MS);
+      timer.unref();
+    }
+  };
+}
+
+/**
+ * Sets up span export from TRACING (called once from instrumentation.ts):
+ * `off` records nothing, `console` prints every span, and `otlp` sends
+ * them to OTEL_EXPORTER_OTLP_ENDPOINT.
+ */
+export function initTracing(): void {
+  const { tracing } = getRagConfig();
+  switch (tracing.exporter) {
+    case "off":
+      state.exporter = undefined;
+      return;
+    case "console":
+      state.exporter = consoleExporter;
+      break;
+    case "otlp":
+      state.exporter = otlpExporter(tracing.otlpEndpoint!, tracing.serviceName);
+      break;
+  }
+  console.log(
+    `[RAG] Tracing enabled (${tracing.exporter}${
+      tracing.exporter === "otlp" ? ` → ${tracing.otlpEndpoint}` : ""
+    }).`
+  );
+}
@@ -0,0 +1,68 @@
+// Words too common to signal that two texts are about the same thing
+export const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for",
+  "from", "how", "i", "if", "in", "is", "it", "my", "of", "on", "or", "the",
+  "to", "what", "when", "where", "which", "who", "why", "with", "you", "your",
+]);
+
+/**
+ * Lower-cases and splits text into word tokens. Dotted numbers such as
+ * clause references ("4.2") stay whole. Stop words are dropped unless
+ * `keepStopWords` is set.
+ */
+export function tokenize(text: string, keepStopWords = false): string[] {
+  const tokens =
+    text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.-][\p{L}\p{N}]+)*/gu) ?? [];
+  return keepStopWords ? tokens : tokens.filter((t) => !STOP_WORDS.has(t));
+}
+
+/**
+ * Crude suffix-stripping stemmer so "leaves"/"leave", "policies"/"policy"
+ * and "approved"/"approve" compare equal. Short tokens and codes like
+ * "4.2" are returned unchanged.
+ */
+export function stem(token: string): string {
+  if (token.length <= 3 || !/^\p{L}+$/u.test(token)) return token;
+  const stripped = token
+    .replace(/ies$/, "y")
+    .replace(/(?<!s)(?:ing|ed|es|s)$/, "")
+    .replace(/e$/, "");
+  return stripped.length >= 3 ? stripped : token;
+}
+
+/** Splits text into sentences on ., !, ?, ; and : followed by whitespace. */
+export function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?;:])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Decodes UTF-8 text, dropping a byte-order mark and normalising line
+ * endings. Throws on bytes that aren't valid UTF-8.
+ */
+export function decodeUtf8(data: Uint8Array): string {
+  return new TextDecoder("utf-8", { fatal: true })
+    .decode(data)
+    .replace(/\r\n?/g, "\n");
+}
+
+// Named entities seen in HTML exports and Office XML; others are left as-is
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  ndash: "–", mdash: "—", hellip: "…", lsquo: "‘", rsquo: "’",
+  ldquo: "“", rdquo: "”", bull: "•", copy: "©", reg: "®", trade: "™",
+};
+
+/** Decodes `&amp;`-style named and `&#39;`/`&#x27;` numeric character references. */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] !== "#") return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+    const code = ref[1] === "x" || ref[1] === "X"
+      ? parseInt(ref.slice(2), 16)
+      : parseInt(ref.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+  });
+}
@@ -0,0 +1,183 @@
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** A metadata value both Pinecone and the local store can hold. */
+export type MetadataValue = string | number | boolean | string[];
+
+/** Metadata stored alongside each chunk vector at ingest time. */
+export interface ChunkMetadata {
+  text: string;
+  source: string;
+  chunkIndex: number;
+  totalChunks: number;
+  pageStart?: number;
+  pageEnd?: number;
+  ingestedAt: string;
+  /** Section headings above the chunk (structured chunking only). */
+  sectionPath?: string;
+  [key: string]: MetadataValue | undefined;
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: ChunkMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: ChunkMetadata;
+}
+
+type Comparable = string | number;
+
+/** Operators for a single metadata field (a subset of Pinecone's syntax). */
+export interface FieldFilter {
+  $eq?: MetadataValue;
+  $ne?: MetadataValue;
+  $in?: Comparable[];
+  $nin?: Comparable[];
+  $gt?: Comparable;
+  $gte?: Comparable;
+  $lt?: Comparable;
+  $lte?: Comparable;
+}
+
+/**
+ * Pinecone-style metadata filter, e.g.
+ * `{ source: { $in: ["Exit Process.pdf"] }, pageStart: { $lte: 3 } }`.
+ * A bare value is shorthand for `$eq`.
+ */
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  [field: string]: MetadataValue | FieldFilter | MetadataFilter[] | undefined;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+}
+
+export interface VectorStoreStats {
+  backend: string;
+  dimension?: number;
+  totalVectors: number;
+}
+
+/**
+ * Storage for chunk vectors. Implementations: Pinecone (`pineconeStore.ts`)
+ * and an offline on-disk store (`localVectorStore.ts`).
+ */
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  /** Highest cosine similarity first. */
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  /** Returns the stored records among `ids`; IDs that don't exist are skipped. */
+  fetch(ids: string[]): Promise<VectorRecord[]>;
+  /** Every vector stored for `source`, in no particular order. */
+  listBySource(source: string): Promise<VectorRecord[]>;
+  /**
+   * Deletes every vector whose `source` is `source`, except the IDs in
+   * `keep`. Returns the number of vectors deleted.
+   */
+  deleteBySource(source: string, keep?: Set<string>): Promise<number>;
+  stats(): Promise<VectorStoreStats>;
+}
+
+// ── IDs ────────────────────────────────────────────────────────────────────
+
+/** Deterministic vector ID prefix for a file, e.g. `handbook_pdf-chunk-`. */
+export function chunkIdPrefix(source: string): string {
+  return `${source.replace(/[^a-zA-Z0-9-_]/g, "_")}-chunk-`;
+}
+
+// ── Filtering ──────────────────────────────────────────────────────────────
+
+function matchesField(
+  value: MetadataValue | undefined,
+  condition: MetadataValue | FieldFilter
+): boolean {
+  if (typeof condition !== "object" || Array.isArray(condition)) {
+    return matchesField(value, { $eq: condition });
+  }
+
+  // Array metadata (list of strings) matches if any element matches
+  const values: (string | number | boolean | undefined)[] = Array.isArray(value)
+    ? value
+    : [value];
+  const some = (test: (v: string | number | boolean | undefined) => boolean) =>
+    values.some(test);
+
+  const c = condition;
+  if (c.$eq !== undefined && !some((v) => v === c.$eq)) return false;
+  if (c.$ne !== undefined && some((v) => v === c.$ne)) return false;
+  if (c.$in && !some((v) => c.$in!.includes(v as Comparable))) return false;
+  if (c.$nin && some((v) => c.$nin!.includes(v as Comparable))) return false;
+
+  const cmp = (test: (v: Comparable) => boolean) =>
+    some((v) => (typeof v === "number" || typeof v === "string") && test(v));
+  if (c.$gt !== undefined && !cmp((v) => v > c.$gt!)) return false;
+  if (c.$gte !== undefined && !cmp((v) => v >= c.$gte!)) return false;
+  if (c.$lt !== undefined && !cmp((v) => v < c.$lt!)) return false;
+  if (c.$lte !== undefined && !cmp((v) => v <= c.$lte!)) return false;
+
+  return true;
+}
+
+/** Evaluates a Pinecone-style filter against one record's metadata. */
+export function matchesFilter(
+  metadata: ChunkMetadata,
+  filter?: MetadataFilter
+): boolean {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === "$and") {
+      return (condition as MetadataFilter[]).every((f) => matchesFilter(metadata, f));
+    }
+    if (key === "$or") {
+      return (condition as MetadataFilter[]).some((f) => matchesFilter(metadata, f));
+    }
+    return matchesField(metadata[key], condition as MetadataValue | FieldFilter);
+  });
+}
+
+// ── Factory ────────────────────────────────────────────────────────────────
+
+export type VectorStoreBackend = "pinecone" | "local";
+
+/** Backend chosen by `VECTOR_STORE` (default: `pinecone`). */
+export function vectorStoreBackend(): VectorStoreBackend {
+  return process.env.VECTOR_STORE === "local" ? "local" : "pinecone";
+}
+
+/** Throws unless the selected backend has the configuration it needs. */
+export function assertVectorStoreConfigured(): void {
+  if (
+    vectorStoreBackend() === "pinecone" &&
+    (!process.env.PINECONE_API_KEY || !process.env.PINECONE_INDEX)
+  ) {
+    throw new Error(
+      "Pinecone credentials are not configured (set PINECONE_API_KEY and PINECONE_INDEX, or VECTOR_STORE=local)"
+    );
+  }
+}
+
+/** Returns the vector store selected by configuration. */
+export async function getVectorStore(): Promise<VectorStore> {
+  assertVectorStoreConfigured();
+
+  if (vectorStoreBackend() === "local") {
+    const { LocalVectorStore } = await import("./localVectorStore");
+    return LocalVectorStore.open();
+  }
+
+  const { PineconeStore } = await import("./pineconeStore");
+  return new PineconeStore(
+    process.env.PINECONE_API_KEY!,
+    process.env.PINECONE_INDEX!
+  );
+}
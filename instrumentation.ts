@@ -1,9 +1,16 @@
 /**
  * Next.js Instrumentation file — runs once when the server starts.
  *
- * This is where we kick off automatic PDF ingestion so that every PDF
- * placed in the pdfs/ folder is indexed into Pinecone before the first
- * user request arrives.
+ * This is where we kick off automatic document ingestion so that every
+ * PDF, Word, Markdown, HTML or text file placed in the pdfs/ folder is
+ * indexed into the vector store. Ingestion runs as
+ * background jobs (see app/lib/ingestQueue.ts), so the server starts
+ * serving immediately and progress shows up in /api/status. A watcher then
+ * picks up files added, changed or deleted while the server runs
+ * (disable with WATCH_DOCUMENTS=false).
+ *
+ * Tracing is set up first so ingestion jobs and requests are traced from
+ * the start (see app/lib/telemetry.ts and TRACING).
  *
  * Docs: https://nextjs.org/docs/app/building-your-application/optimizing/instrumentation
  */
@@ -11,7 +18,12 @@ export async function register() {
   // Only run in the Node.js runtime (not in the Edge runtime or during the
   // build phase where file-system access is not available).
   if (process.env.NEXT_RUNTIME === "nodejs") {
-    const { ingestAllPdfs } = await import("./app/lib/ingestPdfs");
-    await ingestAllPdfs();
+    const { initTracing } = await import("./app/lib/telemetry");
+    initTracing();
+
+    const { ingestAllDocuments } = await import("./app/lib/ingestDocuments");
+    const { startDocumentWatcher } = await import("./app/lib/documentWatcher");
+    ingestAllDocuments();
+    startDocumentWatcher();
   }
 }
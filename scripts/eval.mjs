@@ -0,0 +1,356 @@
+#!/usr/bin/env node
+/**
+ * Offline RAG evaluation against a golden question set.
+ *
+ * Sends every question in the dataset through POST /api/query on a running
+ * server (so it measures exactly what the app serves, with whatever TOP_K,
+ * chunking, reranker and prompt are configured) and scores the result:
+ *
+ *   recall@k          share of the expected documents/pages found in the top k citations
+ *   MRR               1 / rank of the first citation that matches an expectation
+ *   citation accuracy share of the citations the answer uses that match an expectation
+ *   fact coverage     share of the expected key facts that appear in the answer
+ *
+ * Usage:
+ *   npm run eval -- [--dataset eval/golden.json] [--url http://localhost:3000]
+ *                   [--k 4] [--out eval/results/latest.json]
+ *                   [--baseline eval/baseline.json] [--fail-on-regression]
+ *                   [--token <session token>] [--profile <prompt profile>]
+ *
+ * For CI, start the server with the offline providers first, e.g.
+ *   VECTOR_STORE=local EMBEDDING_PROVIDER=fake CHAT_PROVIDER=fake npm run dev
+ * The harness waits for background ingestion to finish before asking.
+ * With sign-in enabled, pass a session token (or set EVAL_TOKEN) for a user
+ * who may read every document the dataset expects, usually an admin.
+ * --profile answers with that prompt profile instead of the server's
+ * default; compare profiles (or versions) by diffing their runs.
+ */
+import fs from "fs";
+import path from "path";
+
+// Metrics reported per question and averaged in the summary
+const METRICS = ["recall", "mrr", "citationAccuracy", "factCoverage"];
+
+// How long to wait for the server and for ingestion to finish
+const READY_TIMEOUT_MS = 10 * 60 * 1000;
+const POLL_INTERVAL_MS = 2000;
+
+// Smallest change reported as a difference from the baseline
+const EPSILON = 1e-6;
+
+// ── Arguments ──────────────────────────────────────────────────────────────
+
+function parseArgs(argv) {
+  const args = {
+    dataset: "eval/golden.json",
+    url: process.env.EVAL_URL || "http://localhost:3000",
+    k: 4,
+    out: "eval/results/latest.json",
+    baseline: undefined,
+    failOnRegression: false,
+    token: process.env.EVAL_TOKEN || undefined,
+    profile: undefined,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`${flag} needs a value`);
+      return next;
+    };
+    switch (flag) {
+      case "--dataset":
+        args.dataset = value();
+        break;
+      case "--url":
+        args.url = value().replace(/\/$/, "");
+        break;
+      case "--k":
+        args.k = Number(value());
+        if (!Number.isInteger(args.k) || args.k <= 0) {
+          throw new Error("--k must be a positive integer");
+        }
+        break;
+      case "--out":
+        args.out = value();
+        break;
+      case "--baseline":
+        args.baseline = value();
+        break;
+      case "--fail-on-regression":
+        args.failOnRegression = true;
+        break;
+      case "--token":
+        args.token = value();
+        break;
+      case "--profile":
+        args.profile = value();
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+  return args;
+}
+
+// ── Dataset ────────────────────────────────────────────────────────────────
+
+/**
+ * Reads and checks the golden dataset:
+ *   { questions: [{ id, question, expected: [{ source, pages? }], facts?, filters? }] }
+ * A fact is a string or a list of alternatives, matched case-insensitively.
+ */
+function loadDataset(file) {
+  const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (!Array.isArray(data.questions) || data.questions.length === 0) {
+    throw new Error(`${file}: "questions" must be a non-empty array`);
+  }
+  const ids = new Set();
+  for (const [i, q] of data.questions.entries()) {
+    const where = `${file}: questions[${i}]`;
+    if (typeof q.id !== "string" || !q.id) throw new Error(`${where}.id must be a string`);
+    if (ids.has(q.id)) throw new Error(`${where}.id "${q.id}" is used twice`);
+    ids.add(q.id);
+    if (typeof q.question !== "string" || !q.question.trim()) {
+      throw new Error(`${where}.question must be a string`);
+    }
+    if (
+      !Array.isArray(q.expected) ||
+      q.expected.length === 0 ||
+      q.expected.some(
+        (e) =>
+          typeof e.source !== "string" ||
+          (e.pages !== undefined &&
+            (!Array.isArray(e.pages) || !e.pages.every(Number.isInteger)))
+      )
+    ) {
+      throw new Error(`${where}.expected must be a non-empty array of { source, pages? }`);
+    }
+    const facts = q.facts ?? [];
+    if (
+      !Array.isArray(facts) ||
+      !facts.every(
+        (f) =>
+          typeof f === "string" ||
+          (Array.isArray(f) && f.length > 0 && f.every((a) => typeof a === "string"))
+      )
+    ) {
+      throw new Error(`${where}.facts must be strings or lists of alternative strings`);
+    }
+  }
+  return data.questions;
+}
+
+// ── Scoring ────────────────────────────────────────────────────────────────
+
+// Lower-cased, punctuation-free text so "15 Days." matches "15 days"
+function normalize(text) {
+  return ` ${text.toLowerCase().replace(/[^\p{L}\p{N}₹$€£%]+/gu, " ").trim()} `;
+}
+
+// Whether a citation covers an expected document (and one of its pages)
+function matches(citation, expected) {
+  if (citation.source !== expected.source) return false;
+  if (!expected.pages) return true;
+  if (citation.page === undefined) return false;
+  const last = citation.pageEnd ?? citation.page;
+  return expected.pages.some((p) => p >= citation.page && p <= last);
+}
+
+/** Scores one /api/query response against its golden question. */
+function score(question, response, k) {
+  // Citations are numbered in rank order
+  const citations = [...(response.citations ?? [])].sort((a, b) => a.marker - b.marker);
+  const topK = citations.slice(0, k);
+  const isRelevant = (c) => question.expected.some((e) => matches(c, e));
+
+  const found = question.expected.filter((e) => topK.some((c) => matches(c, e)));
+  const firstHit = topK.findIndex(isRelevant);
+  const cited = citations.filter((c) => c.cited);
+
+  const answer = normalize(response.answer ?? "");
+  const facts = question.facts ?? [];
+  const covered = facts.filter((fact) =>
+    (Array.isArray(fact) ? fact : [fact]).some((alt) => answer.includes(normalize(alt)))
+  );
+
+  return {
+    recall: found.length / question.expected.length,
+    mrr: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    citationAccuracy: cited.length ? cited.filter(isRelevant).length / cited.length : 0,
+    // A question without facts only measures retrieval
+    factCoverage: facts.length ? covered.length / facts.length : 1,
+    missingFacts: facts
+      .filter((f) => !covered.includes(f))
+      .map((f) => (Array.isArray(f) ? f[0] : f)),
+  };
+}
+
+function summarize(results) {
+  const scored = results.filter((r) => !r.error);
+  const summary = { questions: results.length, errors: results.length - scored.length };
+  for (const metric of METRICS) {
+    // Errors count as zero so a broken pipeline never looks better
+    summary[metric] =
+      results.reduce((sum, r) => sum + (r.error ? 0 : r[metric]), 0) / results.length;
+  }
+  return summary;
+}
+
+// ── Server ─────────────────────────────────────────────────────────────────
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Authorization header for the session token, if one was given
+const authHeaders = (token) => (token ? { Authorization: `Bearer ${token}` } : {});
+
+// Waits until the server answers and has no ingest jobs queued or running
+async function waitForServer(url, token) {
+  const deadline = Date.now() + READY_TIMEOUT_MS;
+  let lastProblem = "not reachable";
+  while (Date.now() < deadline) {
+    try {
+      const res = await fetch(`${url}/api/status`, { headers: authHeaders(token) });
+      const status = await res.json();
+      if (res.ok && !status.activeJobs) return;
+      lastProblem = res.ok
+        ? `${status.activeJobs} ingest job(s) still running`
+        : status.error ?? `status ${res.status}`;
+    } catch (err) {
+      lastProblem = `not reachable (${err.cause?.code ?? err.message})`;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+  throw new Error(`Server at ${url} is not ready: ${lastProblem}`);
+}
+
+async function ask(url, question, token, profile) {
+  const res = await fetch(`${url}/api/query`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders(token) },
+    // Cached answers would hide changes to the prompt or model
+    body: JSON.stringify({
+      question: question.question,
+      filters: question.filters,
+      profile,
+      cache: false,
+    }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? `status ${res.status}`);
+  return data;
+}
+
+// ── Report ─────────────────────────────────────────────────────────────────
+
+const pct = (value) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+function signed(delta) {
+  const text = `${delta > 0 ? "+" : ""}${(delta * 100).toFixed(1)}`;
+  return delta > EPSILON ? `▲ ${text}` : delta < -EPSILON ? `▼ ${text}` : "  =";
+}
+
+function printResults(results, summary, k) {
+  const width = Math.max(8, ...results.map((r) => r.id.length));
+  console.log(
+    `\n${"question".padEnd(width)}  recall@${k}     MRR  citations   facts`
+  );
+  for (const r of results) {
+    if (r.error) {
+      console.log(`${r.id.padEnd(width)}  ✗ ${r.error}`);
+      continue;
+    }
+    const missing = r.missingFacts.length ? `  missing: ${r.missingFacts.join(", ")}` : "";
+    console.log(
+      `${r.id.padEnd(width)}  ${pct(r.recall)}  ${pct(r.mrr)}  ${pct(r.citationAccuracy)}  ${pct(r.factCoverage)}${missing}`
+    );
+  }
+  console.log(
+    `${"mean".padEnd(width)}  ${pct(summary.recall)}  ${pct(summary.mrr)}  ${pct(summary.citationAccuracy)}  ${pct(summary.factCoverage)}`
+  );
+  if (summary.errors) console.log(`\n${summary.errors} question(s) failed.`);
+}
+
+/** Prints metric changes against a previous run. Returns true on any drop. */
+function printDiff(run, baseline) {
+  console.log(`\nCompared with ${baseline.file} (${baseline.runAt}):`);
+  const promptLabel = (p) => (p ? `${p.profile} v${p.version}` : "unrecorded");
+  if (promptLabel(run.prompt) !== promptLabel(baseline.prompt)) {
+    console.log(`  prompt            ${promptLabel(run.prompt)} (baseline: ${promptLabel(baseline.prompt)})`);
+  }
+  let regressed = false;
+  for (const metric of METRICS) {
+    const delta = run.summary[metric] - (baseline.summary[metric] ?? 0);
+    if (delta < -EPSILON) regressed = true;
+    console.log(`  ${metric.padEnd(17)} ${pct(run.summary[metric])}  ${signed(delta)}`);
+  }
+
+  const before = new Map(baseline.results.map((r) => [r.id, r]));
+  const changes = [];
+  for (const r of run.results) {
+    const old = before.get(r.id);
+    if (!old) {
+      changes.push(`  ${r.id}: new question`);
+      continue;
+    }
+    const moved = METRICS.filter((m) => Math.abs((r[m] ?? 0) - (old[m] ?? 0)) > EPSILON).map(
+      (m) => `${m} ${signed((r[m] ?? 0) - (old[m] ?? 0))}`
+    );
+    if (r.error && !old.error) moved.push("now fails");
+    if (moved.length) changes.push(`  ${r.id}: ${moved.join(", ")}`);
+  }
+  if (changes.length) console.log(`\nChanged questions:\n${changes.join("\n")}`);
+  return regressed;
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const questions = loadDataset(args.dataset);
+  const baseline = args.baseline
+    ? { file: args.baseline, ...JSON.parse(fs.readFileSync(args.baseline, "utf-8")) }
+    : undefined;
+
+  await waitForServer(args.url, args.token);
+  console.log(`Evaluating ${questions.length} question(s) from ${args.dataset} against ${args.url}`);
+
+  const results = [];
+  for (const question of questions) {
+    try {
+      const response = await ask(args.url, question, args.token, args.profile);
+      results.push({
+        id: question.id,
+        ...score(question, response, args.k),
+        answer: response.answer,
+        prompt: response.prompt,
+      });
+    } catch (err) {
+      results.push({ id: question.id, error: err.message });
+    }
+  }
+
+  const run = {
+    runAt: new Date().toISOString(),
+    url: args.url,
+    dataset: args.dataset,
+    k: args.k,
+    // Profile and version the answers came from
+    prompt: results.find((r) => r.prompt)?.prompt,
+    summary: summarize(results),
+    results,
+  };
+  printResults(results, run.summary, args.k);
+
+  fs.mkdirSync(path.dirname(args.out), { recursive: true });
+  fs.writeFileSync(args.out, `${JSON.stringify(run, null, 2)}\n`, "utf-8");
+  console.log(`\nSaved to ${args.out}`);
+
+  const regressed = baseline ? printDiff(run, baseline) : false;
+  if (run.summary.errors || (args.failOnRegression && regressed)) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error(`✗ ${err.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * Manages the users file for AUTH_PROVIDER=local.
+ *
+ * Usage:
+ *   npm run users -- add <username> --roles all-employees,managers
+ *                        [--name "Full Name"] [--password <password>]
+ *   npm run users -- remove <username>
+ *   npm run users -- list
+ *
+ * Roles are the access labels a user may read (plus `admin` for
+ * administrators). Without --password the password is read from stdin, so
+ * it stays out of the shell history:
+ *   echo "s3cret-passphrase" | npm run users -- add priya --roles all-employees
+ * Adding an existing user replaces their name, roles and password. The file
+ * is AUTH_USERS_PATH (default .data/users.json); the server picks up changes
+ * without a restart.
+ */
+import { randomBytes, scryptSync } from "crypto";
+import fs from "fs";
+import path from "path";
+
+const USERS_PATH = process.env.AUTH_USERS_PATH || path.join(process.cwd(), ".data", "users.json");
+
+// scrypt salt and output lengths; KEY_LENGTH must match app/lib/localAuth.ts
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Same rule as access labels in document metadata
+const ROLE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+const USERNAME_PATTERN = /^[A-Za-z0-9._@-]{1,100}$/;
+
+// ── Arguments ──────────────────────────────────────────────────────────────
+
+function parseArgs(argv) {
+  const [command, username, ...rest] = argv;
+  const args = { command, username, roles: undefined, name: undefined, password: undefined };
+  for (let i = 0; i < rest.length; i++) {
+    const flag = rest[i];
+    const value = () => {
+      const next = rest[++i];
+      if (next === undefined) throw new Error(`${flag} needs a value`);
+      return next;
+    };
+    switch (flag) {
+      case "--roles":
+        args.roles = [...new Set(value().split(",").map((r) => r.trim()).filter(Boolean))];
+        if (args.roles.length === 0 || !args.roles.every((r) => ROLE_PATTERN.test(r))) {
+          throw new Error("--roles must be comma-separated lowercase labels, e.g. all-employees,managers");
+        }
+        break;
+      case "--name":
+        args.name = value();
+        break;
+      case "--password":
+        args.password = value();
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+  return args;
+}
+
+// ── Users file ─────────────────────────────────────────────────────────────
+
+function loadUsers() {
+  if (!fs.existsSync(USERS_PATH)) return [];
+  const data = JSON.parse(fs.readFileSync(USERS_PATH, "utf-8"));
+  return Array.isArray(data.users) ? data.users : [];
+}
+
+// Written via a temp file so the server never reads a half-written file
+function saveUsers(users) {
+  fs.mkdirSync(path.dirname(USERS_PATH), { recursive: true });
+  const tmpPath = `${USERS_PATH}.tmp`;
+  fs.writeFileSync(tmpPath, `${JSON.stringify({ users }, null, 2)}\n`, { encoding: "utf-8", mode: 0o600 });
+  fs.renameSync(tmpPath, USERS_PATH);
+}
+
+function hashPassword(password) {
+  const salt = randomBytes(SALT_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${scryptSync(password, salt, KEY_LENGTH).toString("hex")}`;
+}
+
+async function readStdin() {
+  let input = "";
+  for await (const chunk of process.stdin) input += chunk;
+  return input.replace(/\r?\n$/, "");
+}
+
+// ── Commands ───────────────────────────────────────────────────────────────
+
+async function add(args) {
+  if (!args.roles) throw new Error("add needs --roles");
+  const password = args.password ?? (await readStdin());
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`The password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const users = loadUsers();
+  const existing = users.findIndex((u) => u.username === args.username);
+  const user = {
+    username: args.username,
+    ...(args.name ? { name: args.name } : {}),
+    passwordHash: hashPassword(password),
+    roles: args.roles,
+  };
+  if (existing === -1) users.push(user);
+  else users[existing] = user;
+
+  saveUsers(users);
+  console.log(`✓ ${existing === -1 ? "Added" : "Updated"} ${args.username} (${args.roles.join(", ")})`);
+}
+
+function remove(args) {
+  const users = loadUsers();
+  const remaining = users.filter((u) => u.username !== args.username);
+  if (remaining.length === users.length) throw new Error(`No user named ${args.username}`);
+  saveUsers(remaining);
+  console.log(`✓ Removed ${args.username}`);
+}
+
+function list() {
+  const users = loadUsers();
+  if (users.length === 0) {
+    console.log(`No users in ${USERS_PATH}`);
+    return;
+  }
+  for (const u of users) {
+    console.log(`${u.username}${u.name ? ` (${u.name})` : ""}: ${u.roles.join(", ")}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.command !== "list" && !USERNAME_PATTERN.test(args.username ?? "")) {
+    throw new Error("Usage: users add <username> --roles <labels> | users remove <username> | users list");
+  }
+  switch (args.command) {
+    case "add":
+      return add(args);
+    case "remove":
+      return remove(args);
+    case "list":
+      return list();
+    default:
+      throw new Error(`Unknown command ${args.command ?? "(none)"}; use add, remove or list`);
+  }
+}
+
+main().catch((err) => {
+  console.error(`✗ ${err.message}`);
+  process.exitCode = 1;
+});